@@ -0,0 +1,90 @@
+// Reference sync server for Project Calendar (see src/lib/serverSync.ts for the protocol).
+// No dependencies; data is kept in a JSON file. Not meant for production use.
+//
+//   npm run sync-server                     # http://localhost:8787, data in ./sync-data.json
+//   PORT=9000 DATA_FILE=/tmp/pc.json npm run sync-server
+//
+// Then enter http://localhost:8787 as the sync endpoint in the app.
+
+import { createServer } from "node:http";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+
+const PORT = Number(process.env.PORT || 8787);
+const DATA_FILE = process.env.DATA_FILE || "sync-data.json";
+const STORES = new Set(["projects", "milestones"]);
+
+// { rev, records: { "store:id": { store, id, rev, record | null } } } — deletions stay as tombstones
+let db = { rev: 0, records: {} };
+if (existsSync(DATA_FILE)) db = JSON.parse(readFileSync(DATA_FILE, "utf8"));
+
+const persist = () => {
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(db));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(data || "{}"));
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on("error", reject);
+  });
+
+function pull(since) {
+  const changes = Object.values(db.records)
+    .filter((c) => c.rev > since)
+    .sort((a, b) => a.rev - b.rev);
+  return { rev: db.rev, changes };
+}
+
+function push(ops) {
+  const results = [];
+  for (const op of ops) {
+    if (!STORES.has(op.store) || typeof op.id !== "string" || !op.id) continue;
+    const key = `${op.store}:${op.id}`;
+    const current = db.records[key];
+    // Someone else changed the record after this client last saw it
+    if (current && current.rev > (op.baseRev || 0)) {
+      results.push({ store: op.store, id: op.id, status: "conflict", rev: current.rev, record: current.record });
+      continue;
+    }
+    const rev = ++db.rev;
+    db.records[key] = { store: op.store, id: op.id, rev, record: op.op === "remove" ? null : op.record };
+    results.push({ store: op.store, id: op.id, status: "ok", rev });
+  }
+  persist();
+  return { rev: db.rev, results };
+}
+
+createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://${req.headers.host}`);
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (url.pathname !== "/changes") return send(res, 404, { error: "not found" });
+  try {
+    if (req.method === "GET") return send(res, 200, pull(Number(url.searchParams.get("since") || 0)));
+    if (req.method === "POST") {
+      const body = await readBody(req);
+      if (!Array.isArray(body.ops)) return send(res, 400, { error: "ops must be a list" });
+      return send(res, 200, push(body.ops));
+    }
+    send(res, 405, { error: "method not allowed" });
+  } catch (e) {
+    send(res, 400, { error: String(e?.message || e) });
+  }
+}).listen(PORT, () => console.log(`Project Calendar sync server on http://localhost:${PORT} (data: ${DATA_FILE})`));
@@ -3,7 +3,7 @@
  * (Kept as a comment so it does NOT render in the app and cannot cause React errors.)
  */
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import {
   format,
   startOfMonth,
@@ -12,56 +12,86 @@ import {
   endOfWeek,
   addDays,
   addMonths,
-  subMonths,
+  addWeeks,
   isSameMonth,
   isToday,
   parseISO,
   differenceInCalendarDays,
+  getDay,
+  startOfDay,
 } from "date-fns";
 import { v4 as uuidv4 } from "uuid";
 import { motion, AnimatePresence } from "framer-motion";
-import { Calendar as CalendarIcon, Plus, Trash2, ChevronLeft, ChevronRight, Flag, BarChart3, X } from "lucide-react";
+import { Calendar as CalendarIcon, CalendarDays, List, Plus, Trash2, ChevronLeft, ChevronRight, ChevronDown, Flag, BarChart3, X, Download, Upload, AlertTriangle, Repeat, Undo2, Redo2, RefreshCw, Bookmark, CheckCircle2, RotateCcw, Pencil, Archive, ArchiveRestore, ListChecks } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AppSettings, ChecklistItem, Dependency, Holiday, Milestone, MilestoneInstance, MilestoneStatus, Project, Recurrence, SavedView, TrashEntry, WorkCalendar } from "@/lib/types";
+import { safeEnd, durationDays } from "@/lib/dates";
+import { milestonesToICS, milestoneToVEvent, escapeICSText, foldICSLine, parseICS, milestoneIdFromUID, type ICSCalendar } from "@/lib/ics";
+import { normalizeLabel, upsertMilestones } from "@/lib/milestones";
+import { downloadFile, slugify } from "@/lib/download";
+import { CSV_FIELDS, DATE_FORMATS, detectDateFormat, guessMapping, mapCSVRows, milestonesToCSV, parseCSV, type CSVMapping } from "@/lib/csv";
+import { DEPENDENCY_TYPE_LABELS, cascadeShifts, findCycle, pruneDependencies, violatedPredecessors, wouldCreateCycle, type Shift } from "@/lib/dependencies";
+import { analyzeSchedules, describeSlack } from "@/lib/criticalPath";
+import {
+  ORDINALS,
+  RECURRENCE_SCOPE_LABELS,
+  WEEKDAY_SHORT,
+  describeRecurrence,
+  expandInRange,
+  nthWeekdayOf,
+  removeOccurrences,
+  splitSeries,
+  type RecurrenceScope,
+} from "@/lib/recurrence";
+import { TIMELINE_ZOOMS, ZOOM_DAY_WIDTH, ZOOM_LABELS, describePeriod, editRange, stepPeriod, timelineScale, timelineWindow, type BarEdit, type TimelineZoom } from "@/lib/timeline";
+import { EMPTY_HISTORY, describeChange, recordChange, redoStep, undoStep, type Snapshot } from "@/lib/history";
+import { SCHEMA_VERSION, createBackup, isObject, parseBackup, type LoadResult, type QuarantinedRecord } from "@/lib/backup";
+import { describeStorageError, diffRecords, loadFrom, openStorage, type RecordStore, type StorageAdapter, type StoredData } from "@/lib/storage";
+import { describeOriginalTime, formatTimes, isTimed, isValidTimeZone, milestoneInstants, timeZoneOptions, viewerDays, viewerTimeZone, zonedTimeToInstant } from "@/lib/timeZones";
+import { savedViewsOf, viewStateFromSearch, viewStateToSearch, type ViewMode, type ViewState } from "@/lib/viewState";
+import { baselinesOf, captureBaseline, describeSlip, varianceReport } from "@/lib/baselines";
+import { MILESTONE_STATUSES, STATUS_BADGE, STATUS_CHIP, STATUS_LABELS, isOverdue, progressOf, statusOf, withStatus } from "@/lib/status";
+import { checklistCounts, deriveFromChecklist, describeChecklist, itemsOutsideRange } from "@/lib/checklist";
+import { backlinks, milestoneRefs, parseInline, parseMarkdown, resolveRef, safeHref, type Inline } from "@/lib/markdown";
+import { canNestUnder, projectTree, rollUpCounts, subtreeIds } from "@/lib/hierarchy";
+import { gridKeyTarget } from "@/lib/gridNavigation";
+import { describeTrashEntry, dropRestored, projectDeletionImpact, restoreEntry, trashEntry, trashOf } from "@/lib/trash";
+import { matchesQuery, parseQuery, querySuggestions, type QueryError } from "@/lib/query";
+import { STANDARD_CALENDAR, calendarFor, holidayName, holidaysFromICS, isWorkingDay, mergeHolidays, shiftKeepingWorkingDays, workCalendarsOf, workingDaysBetween } from "@/lib/workCalendar";
+import { acceptMeta, mergeRemote, openSyncChannel, stampChanges, type MetaStoreName, type SyncChannel, type SyncMessage } from "@/lib/sync";
+import {
+  EMPTY_SYNC_STATE,
+  applyServerChanges,
+  conflictFields,
+  enqueueOps,
+  isNetworkError,
+  loadServerSyncState,
+  mergeConflict,
+  pullChanges,
+  parseServerSyncState,
+  pushOps,
+  saveServerSyncState,
+  settlePush,
+  syncKey,
+  watchServerSyncState,
+  type ServerSyncState,
+  type SyncConflict,
+  type SyncOp,
+  type SyncRecord,
+} from "@/lib/serverSync";
 
 // -----------------------------
-// Helper Types
-// -----------------------------
-
-type Milestone = {
-  id: string;
-  title: string;
-  date: string; // start ISO yyyy-MM-dd
-  endDate?: string | null; // optional end ISO yyyy-MM-dd (inclusive)
-  notes?: string;
-  projectId: string;
-  labels?: string[]; // tags for filtering
-};
-
-type Project = {
-  id: string;
-  name: string;
-  color: string; // hex
-};
-
-// -----------------------------
-// Local Storage helpers
+// View modes
 // -----------------------------
 
-const LS_KEY_PROJECTS = "pc_projects_v1";
-const LS_KEY_MILESTONES = "pc_milestones_v1";
+// Agenda shows this many days from the anchor date; prev/next page by the same amount
+const AGENDA_DAYS = 30;
 
-const saveLS = (key: string, data: any) => localStorage.setItem(key, JSON.stringify(data));
-const readLS = <T,>(key: string, fallback: T): T => {
-  try {
-    const raw = localStorage.getItem(key);
-    return raw ? (JSON.parse(raw) as T) : fallback;
-  } catch {
-    return fallback;
-  }
-};
+// Weekday toggles of a working calendar, indexed like Date.getDay()
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
 // -----------------------------
 // Color options
@@ -82,16 +112,29 @@ const COLOR_OPTIONS = [
 // Modal (simple, headless)
 // -----------------------------
 
-function Modal({ open, onClose, children, title }: { open: boolean; onClose: () => void; children: React.ReactNode; title: string }) {
+function Modal({ open, onClose, children, title, wide = false }: { open: boolean; onClose: () => void; children: React.ReactNode; title: string; wide?: boolean }) {
+  const panel = useRef<HTMLDivElement>(null);
+  // Focus moves into the dialog, and back to whatever opened it (e.g. a calendar day) on close
+  useEffect(() => {
+    if (!open) return;
+    const opener = document.activeElement as HTMLElement | null;
+    panel.current?.focus();
+    return () => opener?.focus();
+  }, [open]);
   if (!open) return null;
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       <div className="absolute inset-0 bg-black/30" onClick={onClose} />
       <motion.div
+        ref={panel}
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        tabIndex={-1}
         initial={{ opacity: 0, scale: 0.96 }}
         animate={{ opacity: 1, scale: 1 }}
         exit={{ opacity: 0, scale: 0.96 }}
-        className="relative z-10 w-[92vw] max-w-md rounded-2xl bg-white p-4 shadow-xl"
+        className={`relative z-10 max-h-[90vh] w-[92vw] overflow-y-auto ${wide ? "max-w-2xl" : "max-w-md"} rounded-2xl bg-white p-4 shadow-xl outline-none`}
       >
         <div className="mb-2 flex items-center justify-between">
           <h3 className="text-sm font-semibold">{title}</h3>
@@ -105,6 +148,32 @@ function Modal({ open, onClose, children, title }: { open: boolean; onClose: ()
   );
 }
 
+// -----------------------------
+// Toast — transient message with an optional action
+// -----------------------------
+
+function Toast({ message, actionLabel, onAction, onClose }: { message: string; actionLabel?: string; onAction?: () => void; onClose: () => void }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 16 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 16 }}
+      role="status"
+      className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-2xl bg-slate-900 px-4 py-2 text-sm text-white shadow-xl"
+    >
+      <span>{message}</span>
+      {actionLabel && onAction && (
+        <button className="font-semibold text-sky-300 hover:text-sky-200" onClick={onAction}>
+          {actionLabel}
+        </button>
+      )}
+      <button className="rounded-lg p-0.5 hover:bg-white/10" onClick={onClose} aria-label="Dismiss">
+        <X className="h-4 w-4" />
+      </button>
+    </motion.div>
+  );
+}
+
 // -----------------------------
 // Form Label — marks required fields with *
 // -----------------------------
@@ -164,18 +233,403 @@ function TagInput({ value, onChange, placeholder = "Add label and press Enter" }
 }
 
 // -----------------------------
-// Utils
+// Filter query input with autocomplete
+// -----------------------------
+
+function QueryInput({ value, onChange, error, projectNames, labels }: { value: string; onChange: (v: string) => void; error: QueryError | null; projectNames: string[]; labels: string[] }) {
+  const ref = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const { from, to, suggestions } = useMemo(() => querySuggestions(value, cursor, projectNames, labels), [value, cursor, projectNames, labels]);
+  const showList = open && suggestions.length > 0;
+
+  const pick = (insert: string) => {
+    const next = value.slice(0, from) + insert + value.slice(to);
+    const at = from + insert.length;
+    onChange(next);
+    setCursor(at);
+    setActive(0);
+    requestAnimationFrame(() => ref.current?.setSelectionRange(at, at));
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={ref}
+        value={value}
+        role="combobox"
+        aria-expanded={showList}
+        aria-invalid={!!error}
+        aria-label="Filter milestones"
+        placeholder='Filter: project:web label:risk OR label:external -label:done "beta" after:2025-03-01 duration>5'
+        className={`w-full rounded-md border bg-white px-3 py-2 text-sm outline-none focus:ring-2 ${error ? "border-red-400 focus:ring-red-300" : "border-slate-300 focus:ring-slate-400"}`}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setOpen(true);
+          setActive(0);
+        }}
+        onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? 0)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") {
+            if (showList) setOpen(false);
+            else onChange("");
+          } else if (showList && (e.key === "ArrowDown" || e.key === "ArrowUp")) {
+            e.preventDefault();
+            setActive((i) => (i + (e.key === "ArrowDown" ? 1 : suggestions.length - 1)) % suggestions.length);
+          } else if (showList && (e.key === "Enter" || e.key === "Tab")) {
+            e.preventDefault();
+            pick(suggestions[active].insert);
+          }
+        }}
+      />
+      {showList && (
+        <ul role="listbox" className="absolute left-0 right-0 top-full z-30 mt-1 max-h-56 overflow-y-auto rounded-md border bg-white py-1 text-sm shadow-lg">
+          {suggestions.map((sug, i) => (
+            <li
+              key={sug.label}
+              role="option"
+              aria-selected={i === active}
+              className={`cursor-pointer px-3 py-1 ${i === active ? "bg-slate-100" : ""}`}
+              // mousedown, so the input doesn't blur (and close the list) first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(sug.insert);
+              }}
+            >
+              {sug.label}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && (
+        <p role="alert" className="mt-1 text-xs text-red-700">
+          {error.message}
+          {error.end > error.start && (
+            <>
+              {" "}at <code className="rounded bg-red-50 px-1">{value.slice(error.start, error.end)}</code>
+            </>
+          )}{" "}
+          — the filter is ignored until this is fixed.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// -----------------------------
+// Recurrence editor
+// -----------------------------
+
+function RecurrenceEditor({ value, start, onChange }: { value: Recurrence | null; start: string; onChange: (r: Recurrence | null) => void }) {
+  const [exDraft, setExDraft] = useState("");
+  const startDate = parseISO(start);
+  const set = (patch: Partial<Recurrence>) => value && onChange({ ...value, ...patch });
+  const ends = value?.until ? "until" : value?.count ? "count" : "never";
+  const unit = value?.freq === "daily" ? "day" : value?.freq === "weekly" ? "week" : "month";
+  return (
+    <div className="space-y-2">
+      <Select
+        value={value?.freq || "none"}
+        onValueChange={(v) =>
+          onChange(
+            v === "none"
+              ? null
+              : {
+                  freq: v as Recurrence["freq"],
+                  interval: value?.interval || 1,
+                  byWeekday: v === "weekly" ? (value?.byWeekday?.length ? value.byWeekday : [getDay(startDate)]) : undefined,
+                  monthlyMode: v === "monthly" ? value?.monthlyMode || "dayOfMonth" : undefined,
+                  until: value?.until ?? null,
+                  count: value?.count ?? null,
+                  exdates: value?.exdates || [],
+                }
+          )
+        }
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Does not repeat" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none" label="Does not repeat">Does not repeat</SelectItem>
+          <SelectItem value="daily" label="Daily">Daily</SelectItem>
+          <SelectItem value="weekly" label="Weekly">Weekly</SelectItem>
+          <SelectItem value="monthly" label="Monthly">Monthly</SelectItem>
+        </SelectContent>
+      </Select>
+      {value && (
+        <div className="space-y-2 rounded-md border border-slate-200 p-2 text-sm">
+          <div className="flex items-center gap-2">
+            <span>Every</span>
+            <div className="w-20">
+              <Input type="number" min={1} value={value.interval} onChange={(e) => set({ interval: Math.max(1, Math.floor(Number(e.target.value) || 1)) })} aria-label="Interval" />
+            </div>
+            <span>{unit}{value.interval > 1 ? "s" : ""}</span>
+          </div>
+          {value.freq === "weekly" && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_SHORT.map((d, i) => {
+                const active = (value.byWeekday || []).includes(i);
+                return (
+                  <button
+                    key={d}
+                    className={`rounded-full px-2 py-0.5 text-[11px] ${active ? "bg-slate-900 text-white" : "bg-slate-100 text-slate-700 hover:bg-slate-200"}`}
+                    onClick={() => {
+                      const next = active ? (value.byWeekday || []).filter((x) => x !== i) : [...(value.byWeekday || []), i];
+                      if (next.length) set({ byWeekday: next.sort((a, b) => a - b) });
+                    }}
+                    aria-pressed={active}
+                  >
+                    {d}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {value.freq === "monthly" && (
+            <Select value={value.monthlyMode || "dayOfMonth"} onValueChange={(v) => set({ monthlyMode: v as Recurrence["monthlyMode"] })}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="On" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dayOfMonth" label={`On day ${format(startDate, "d")}`}>On day {format(startDate, "d")}</SelectItem>
+                <SelectItem value="nthWeekday" label={`On the ${ORDINALS[nthWeekdayOf(startDate) - 1]} ${format(startDate, "EEEE")}`}>
+                  On the {ORDINALS[nthWeekdayOf(startDate) - 1]} {format(startDate, "EEEE")}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex items-end gap-2">
+            <Select
+              className="flex-1"
+              value={ends}
+              onValueChange={(v) => set(v === "until" ? { until: value.until || start, count: null } : v === "count" ? { until: null, count: value.count || 10 } : { until: null, count: null })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Ends" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never" label="Never ends">Never ends</SelectItem>
+                <SelectItem value="until" label="Ends on date">Ends on date</SelectItem>
+                <SelectItem value="count" label="Ends after">Ends after</SelectItem>
+              </SelectContent>
+            </Select>
+            {ends === "until" && (
+              <div className="flex-1">
+                <Input type="date" min={start} value={value.until || ""} onChange={(e) => set({ until: e.target.value || null })} aria-label="Repeat until" />
+              </div>
+            )}
+            {ends === "count" && (
+              <div className="flex flex-1 items-center gap-2">
+                <Input type="number" min={1} value={value.count || 1} onChange={(e) => set({ count: Math.max(1, Math.floor(Number(e.target.value) || 1)) })} aria-label="Number of occurrences" />
+                <span className="mt-1 whitespace-nowrap text-xs text-slate-500">times</span>
+              </div>
+            )}
+          </div>
+          <div>
+            <div className="text-xs text-slate-500">Skip dates</div>
+            <div className="mt-1 flex flex-wrap items-center gap-1">
+              {(value.exdates || []).map((d) => (
+                <span key={d} className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-[11px]">
+                  {format(parseISO(d), "PP")}
+                  <button className="rounded-full px-1 text-slate-500 hover:bg-slate-200" onClick={() => set({ exdates: (value.exdates || []).filter((x) => x !== d) })} aria-label={`Remove ${d}`}>
+                    ×
+                  </button>
+                </span>
+              ))}
+              <input
+                type="date"
+                className="rounded-md border border-slate-300 px-2 py-0.5 text-xs"
+                value={exDraft}
+                onChange={(e) => setExDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && exDraft) {
+                    e.preventDefault();
+                    if (!(value.exdates || []).includes(exDraft)) set({ exdates: [...(value.exdates || []), exDraft].sort() });
+                    setExDraft("");
+                  }
+                }}
+                aria-label="Add skipped date"
+              />
+              <button
+                className="text-[11px] underline text-slate-600 disabled:opacity-50"
+                disabled={!exDraft}
+                onClick={() => {
+                  if (!(value.exdates || []).includes(exDraft)) set({ exdates: [...(value.exdates || []), exDraft].sort() });
+                  setExDraft("");
+                }}
+              >
+                Add
+              </button>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">{describeRecurrence(value, start)}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// -----------------------------
+// Checklist editor
+// -----------------------------
+
+function ChecklistEditor({ value, start, end, onChange }: { value: ChecklistItem[]; start: string; end: string; onChange: (items: ChecklistItem[]) => void }) {
+  const [text, setText] = useState("");
+  const set = (id: string, patch: Partial<ChecklistItem>) => onChange(value.map((i) => (i.id === id ? { ...i, ...patch } : i)));
+  const add = () => {
+    if (!text.trim()) return;
+    onChange([...value, { id: uuidv4(), text: text.trim(), done: false, due: null, assignee: null }]);
+    setText("");
+  };
+  return (
+    <div className="space-y-1.5">
+      {value.map((item) => (
+        <div key={item.id} className="flex items-center gap-2">
+          <input type="checkbox" checked={item.done} onChange={(e) => set(item.id, { done: e.target.checked })} aria-label={`${item.text} done`} />
+          <input
+            className={`min-w-0 flex-1 rounded-md border border-slate-300 px-2 py-1 text-sm ${item.done ? "text-slate-400 line-through" : ""}`}
+            value={item.text}
+            onChange={(e) => set(item.id, { text: e.target.value })}
+            aria-label="Item"
+          />
+          <input
+            type="date"
+            min={start}
+            max={end}
+            className={`w-32 rounded-md border px-2 py-1 text-xs ${item.due && (item.due < start || item.due > end) ? "border-red-400 text-red-700" : "border-slate-300"}`}
+            value={item.due || ""}
+            onChange={(e) => set(item.id, { due: e.target.value || null })}
+            aria-label={`${item.text} due`}
+            title="Due (optional)"
+          />
+          <input className="w-28 rounded-md border border-slate-300 px-2 py-1 text-xs" value={item.assignee || ""} onChange={(e) => set(item.id, { assignee: e.target.value || null })} placeholder="Assignee" aria-label={`${item.text} assignee`} />
+          <button className="rounded-full px-1 text-slate-500 hover:bg-slate-200" onClick={() => onChange(value.filter((i) => i.id !== item.id))} aria-label={`Remove ${item.text}`}>
+            ×
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <input
+          className="min-w-0 flex-1 rounded-md border border-slate-300 px-2 py-1 text-sm"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              add();
+            }
+          }}
+          placeholder="Add an item and press Enter"
+          aria-label="New checklist item"
+        />
+        <button className="text-[11px] underline text-slate-600 disabled:opacity-50" disabled={!text.trim()} onClick={add}>
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// -----------------------------
+// Markdown notes
 // -----------------------------
 
-const safeEnd = (startISO: string, endISO?: string | null) => {
-  if (!endISO) return startISO;
-  const s = parseISO(startISO);
-  const e = parseISO(endISO);
-  return e < s ? startISO : endISO; // ensure end >= start
-};
+// Renders the parsed tree as elements; #[Title] references open the milestone they resolve to
+function MarkdownView({ source, resolve, onOpen, className = "" }: { source: string; resolve: (title: string) => Milestone | undefined; onOpen: (m: Milestone) => void; className?: string }) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  const inline = (nodes: Inline[]): React.ReactNode[] =>
+    nodes.map((n, i) => {
+      switch (n.kind) {
+        case "text":
+          return n.text;
+        case "break":
+          return <br key={i} />;
+        case "code":
+          return (
+            <code key={i} className="rounded bg-slate-100 px-1 font-mono text-[0.9em]">
+              {n.text}
+            </code>
+          );
+        case "strong":
+          return <strong key={i}>{inline(n.children)}</strong>;
+        case "em":
+          return <em key={i}>{inline(n.children)}</em>;
+        case "link":
+          return (
+            <a key={i} href={n.href} target="_blank" rel="noopener noreferrer nofollow" className="text-sky-700 underline" onClick={(e) => e.stopPropagation()}>
+              {inline(n.children)}
+            </a>
+          );
+        case "ref": {
+          const target = resolve(n.title);
+          return target ? (
+            <button
+              key={i}
+              type="button"
+              className="rounded bg-sky-50 px-1 text-sky-800 underline decoration-dotted hover:bg-sky-100"
+              onClick={(e) => {
+                e.stopPropagation();
+                onOpen(target);
+              }}
+              title={`Open “${target.title}”`}
+            >
+              {n.title}
+            </button>
+          ) : (
+            <span key={i} className="rounded bg-slate-100 px-1 text-slate-400 line-through" title="No milestone with this title">
+              {n.title}
+            </span>
+          );
+        }
+      }
+    });
+  return (
+    <div className={`space-y-1.5 break-words ${className}`}>
+      {blocks.map((b, i) => {
+        switch (b.kind) {
+          case "heading":
+            return (
+              <div key={i} role="heading" aria-level={b.level} className={`font-semibold text-slate-800 ${b.level === 1 ? "text-base" : b.level === 2 ? "text-sm" : "text-xs"}`}>
+                {inline(b.children)}
+              </div>
+            );
+          case "paragraph":
+            return <p key={i}>{inline(b.children)}</p>;
+          case "quote":
+            return (
+              <blockquote key={i} className="border-l-2 border-slate-300 pl-2 italic">
+                {inline(b.children)}
+              </blockquote>
+            );
+          case "list": {
+            const ListTag = b.ordered ? "ol" : "ul";
+            return (
+              <ListTag key={i} className={`pl-5 ${b.ordered ? "list-decimal" : "list-disc"}`}>
+                {b.items.map((item, j) => (
+                  <li key={j}>{inline(item)}</li>
+                ))}
+              </ListTag>
+            );
+          }
+          case "code":
+            return (
+              <pre key={i} className="overflow-x-auto rounded-md bg-slate-100 p-2 font-mono text-[11px] text-slate-800">
+                {b.text}
+              </pre>
+            );
+        }
+      })}
+    </div>
+  );
+}
 
-const durationDays = (startISO: string, endISO?: string | null) =>
-  differenceInCalendarDays(parseISO(safeEnd(startISO, endISO)), parseISO(startISO)) + 1; // inclusive
+// -----------------------------
+// Utils
+// -----------------------------
 
 const hasAllLabels = (labels: string[] | undefined, required: string[]) =>
   required.every((r) => (labels || []).includes(r));
@@ -201,6 +655,244 @@ function runSelfTests() {
   // labels filter
   assert("hasAllLabels true when all present", hasAllLabels(["risk", "external"], ["risk"]));
   assert("hasAllLabels false when missing", !hasAllLabels(["risk"], ["external"]));
+
+  // iCalendar export
+  assert("ics escapes text specials", escapeICSText("a,b;c\\d\ne") === "a\\,b\\;c\\\\d\\ne");
+  assert("ics folds long lines", foldICSLine("X".repeat(100)).split("\r\n ").every((l) => l.length <= 75));
+  const ics = milestonesToICS([{ id: "m1", title: "Beta", date: "2025-01-30", endDate: "2025-01-31", projectId: "p1" }], {});
+  assert("ics DTEND is exclusive day after end", ics.includes("DTEND;VALUE=DATE:20250201"));
+  assert("ics UID stable from id", ics.includes("UID:m1@project-calendar"));
+
+  // iCalendar import
+  const parsed = parseICS("BEGIN:VCALENDAR\r\nX-WR-CALNAME:Trains\r\nBEGIN:VEVENT\r\nUID:abc\r\nDTSTART;VALUE=DATE:20250301\r\nDTEND;VALUE=DATE:20250304\r\nSUMMARY:Release\\, train\r\n  one\r\nCATEGORIES:Risk,ops\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n");
+  assert("ics import reads calendar name", parsed.name === "Trains");
+  assert("ics import unfolds and unescapes", parsed.events[0]?.title === "Release, train one");
+  assert("ics import makes DTEND inclusive", parsed.events[0]?.end === "2025-03-03");
+  assert("ics import round-trips our UIDs", milestoneIdFromUID("m1@project-calendar") === "m1");
+  const timedOut: Milestone = { id: "t1", title: "Call", date: "2025-03-01", endDate: "2025-03-01", startTime: "23:30", endTime: "23:45", timeZone: "Asia/Tokyo", projectId: "p" };
+  const timedIn = parseICS(["BEGIN:VCALENDAR", ...milestoneToVEvent(timedOut, undefined, new Date()), "END:VCALENDAR"].join("\r\n")).events[0];
+  assert("ics import keeps the instants of timed events", milestoneInstants({ ...timedIn, date: timedIn.start, endDate: timedIn.end })?.start.getTime() === milestoneInstants(timedOut)?.start.getTime() && timedIn.endTime === "14:45" && timedIn.timeZone === "UTC");
+  const zoned = parseICS("BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART;TZID=Europe/Berlin:20250301T090000\r\nDURATION:PT90M\r\nEND:VEVENT\r\nEND:VCALENDAR").events[0];
+  assert("ics import reads TZID wall-clock times and durations", zoned.start === "2025-03-01" && zoned.startTime === "09:00" && zoned.endTime === "10:30" && zoned.timeZone === "Europe/Berlin");
+  const seriesOut: Milestone = { id: "s1", title: "Review", date: "2025-01-06", projectId: "p", recurrence: { freq: "weekly", interval: 2, byWeekday: [3, 1], until: "2025-03-31", exdates: ["2025-01-08"] } };
+  const seriesICS = milestonesToICS([seriesOut], {});
+  assert("ics exports recurrence as RRULE with EXDATE", seriesICS.includes("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20250331") && seriesICS.includes("EXDATE;VALUE=DATE:20250108"));
+  assert("ics import reads RRULE and EXDATE back", JSON.stringify(parseICS(seriesICS).events[0]?.recurrence) === JSON.stringify({ freq: "weekly", interval: 2, byWeekday: [1, 3], until: "2025-03-31", exdates: ["2025-01-08"] }));
+  const timedSeriesOut: Milestone = { id: "s2", title: "Sync", date: "2025-01-14", endDate: "2025-01-14", startTime: "09:00", endTime: "09:30", timeZone: "Europe/Berlin", projectId: "p", recurrence: { freq: "monthly", interval: 1, monthlyMode: "nthWeekday", count: 3, exdates: ["2025-02-11"] } };
+  const timedSeriesICS = milestonesToICS([timedSeriesOut], {});
+  const timedSeriesIn = parseICS(timedSeriesICS).events[0];
+  assert("ics exports timed series in their own zone", timedSeriesICS.includes("DTSTART;TZID=Europe/Berlin:20250114T090000") && timedSeriesICS.includes("RRULE:FREQ=MONTHLY;BYDAY=2TU;COUNT=3") && timedSeriesICS.includes("EXDATE;TZID=Europe/Berlin:20250211T090000"));
+  assert("ics round-trips timed series", timedSeriesIn?.startTime === "09:00" && timedSeriesIn.timeZone === "Europe/Berlin" && JSON.stringify(timedSeriesIn.recurrence) === JSON.stringify(timedSeriesOut.recurrence));
+  assert("ics import leaves all-day events untimed", parsed.events[0]?.startTime === null && parsed.events[0]?.timeZone === null);
+
+  // backup migrations & validation
+  const restored = parseBackup(JSON.stringify({ projects: [{ id: "p1", name: "Web", color: "#0ea5e9" }], milestones: [{ id: "m1", title: "Beta", date: "2025-01-10", projectId: "p1", labels: ["Needs Review"] }, { id: "m2", title: "Bad", date: "soon", projectId: "p1" }] }));
+  assert("backup migrates unversioned data", restored.milestones[0]?.labels?.[0] === "needs-review" && restored.milestones[0]?.endDate === "2025-01-10");
+  assert("backup quarantines malformed records", restored.milestones.length === 1 && restored.quarantined.length === 1);
+
+  // CSV round-trip
+  const rows = parseCSV('title,start\r\n"Beta, ""final""",2025-03-01\r\n');
+  assert("csv parses quoted cells", rows[1]?.[0] === 'Beta, "final"');
+  assert("csv detects day-first dates", detectDateFormat(["13/01/2025", "02/03/2025"]) === "d/M/yyyy");
+  assert("csv guesses column mapping", guessMapping(["Name", "Start Date", "Due"]).end === 2);
+  const sheetBeta: Milestone = { id: "m1", title: "Beta", date: "2025-02-01", endDate: "2025-02-03", notes: "keep", labels: ["risk"], projectId: "p1" };
+  const moved = mapCSVRows([["m1", "Beta", "2025-03-01"]], { ...guessMapping([]), id: 0, title: 1, start: 2 }, "yyyy-MM-dd", new Map([["m1", sheetBeta]]), false)[0];
+  const reimported = upsertMilestones([sheetBeta], [{ ...moved.milestone!, projectId: "p1" }]).milestones[0];
+  assert("csv re-import of a new start keeps the duration and unmapped fields", reimported.date === "2025-03-01" && reimported.endDate === "2025-03-03" && reimported.notes === "keep" && reimported.labels?.[0] === "risk");
+
+  // dependencies
+  const a: Milestone = { id: "a", title: "A", date: "2025-01-01", endDate: "2025-01-03", projectId: "p" };
+  const b: Milestone = { id: "b", title: "B", date: "2025-01-04", endDate: "2025-01-05", projectId: "p", dependencies: [{ predecessorId: "a", type: "FS", lagDays: 0 }] };
+  const shifts = cascadeShifts([a, b], [{ ...a, endDate: "2025-01-05" }]);
+  assert("cascade pushes FS dependent past predecessor end", shifts[0]?.to.date === "2025-01-06" && shifts[0]?.to.endDate === "2025-01-07");
+  const weekdayShift = cascadeShifts([a, { ...b, date: "2025-01-02", endDate: "2025-01-03" }], [{ ...a, endDate: "2025-03-07" }], () => STANDARD_CALENDAR)[0];
+  assert("cascade in working days skips the weekend and keeps the working length", weekdayShift?.to.date === "2025-03-10" && weekdayShift?.to.endDate === "2025-03-11");
+  assert("cascade leaves satisfied dependents alone", cascadeShifts([a, b], [{ ...a, date: "2024-12-30", endDate: "2024-12-31" }]).length === 0);
+  assert("dependency cycle detected", wouldCreateCycle([a, b], "a", "b"));
+
+  // critical path
+  const c: Milestone = { id: "c", title: "C", date: "2025-01-01", endDate: "2025-01-02", projectId: "p" };
+  const cpm = analyzeSchedules([a, b, c]);
+  assert("critical path follows the longest chain", !!cpm.get("a")?.critical && !!cpm.get("b")?.critical);
+  assert("slack counts days before the project end", cpm.get("c")?.slackDays === 3);
+
+  // recurrence
+  const weekly: Milestone = { id: "w", title: "Review", date: "2025-01-06", projectId: "p", recurrence: { freq: "weekly", interval: 2, byWeekday: [1, 3], count: 5, exdates: ["2025-01-08"] } };
+  const occ = expandInRange([weekly], parseISO("2025-01-01"), parseISO("2025-03-31")).map((x) => x.date);
+  assert("weekly recurrence honours interval, count and exceptions", occ.join() === "2025-01-06,2025-01-20,2025-01-22,2025-02-03");
+  const monthly: Milestone = { id: "mo", title: "Cut", date: "2025-01-31", projectId: "p", recurrence: { freq: "monthly", interval: 1 } };
+  assert("monthly by day skips short months", expandInRange([monthly], parseISO("2025-02-01"), parseISO("2025-03-31")).map((x) => x.date).join() === "2025-03-31");
+  const split = splitSeries(weekly, "2025-01-20", "following", { ...weekly, date: "2025-01-21" }, () => "w2");
+  assert("this-and-following ends the old series the day before", split[0].recurrence?.until === "2025-01-19" && split[1].id === "w2");
+
+  // timeline zoom
+  const win = timelineWindow(parseISO("2025-02-14"), "month");
+  assert("month window spans the neighbouring months", win.days === 90 && win.focusIndex === 31);
+  const yearScale = timelineScale(parseISO("2024-01-01"), parseISO("2026-12-31"), "year");
+  assert("year zoom labels months under years", yearScale.major.length === 3 && yearScale.minor.length === 36);
+  assert("resizing the start never passes the end", editRange("2025-03-03", "2025-03-05", "start", 5).date === "2025-03-05");
+  assert("moving a bar keeps its length", editRange("2025-03-03", "2025-03-05", "move", -3).endDate === "2025-03-02");
+
+  // working calendars
+  const workCal = { ...STANDARD_CALENDAR, holidays: [{ date: "2025-03-10", name: "Holiday" }] };
+  assert("working days skip weekends and holidays", workingDaysBetween(workCal, "2025-03-07", "2025-03-12") === 3);
+  const shifted = shiftKeepingWorkingDays(workCal, "2025-03-03", "2025-03-05", parseISO("2025-03-08"));
+  assert("moving keeps working days and starts on a working day", shifted.date === "2025-03-11" && shifted.endDate === "2025-03-13");
+  assert("moving backwards snaps back to a working day", shiftKeepingWorkingDays(workCal, "2025-03-03", undefined, parseISO("2025-03-09"), -1).date === "2025-03-07");
+
+  // timed milestones & time zones
+  assert("wall time in a summer zone", zonedTimeToInstant("2025-07-01", "14:00", "Europe/Berlin").toISOString() === "2025-07-01T12:00:00.000Z");
+  assert("a time skipped by DST resolves after the jump", zonedTimeToInstant("2025-03-09", "02:30", "America/New_York").toISOString() === "2025-03-09T07:30:00.000Z");
+  const lateCall = { date: "2025-03-01", startTime: "22:00", endTime: "23:30", timeZone: "America/New_York" };
+  assert("an evening call lands on the next day further east", viewerDays(lateCall, "Europe/Berlin").date === "2025-03-02" && formatTimes(lateCall, "Europe/Berlin") === "04:00–05:30");
+  const overnight = { date: "2025-03-01", endDate: "2025-03-02", startTime: "22:00", endTime: "00:00", timeZone: "UTC" };
+  assert("ending at midnight doesn't spill into the next day", viewerDays(overnight, "UTC").endDate === "2025-03-01");
+  const dstNight = { date: "2025-03-30", startTime: "00:00", endTime: "04:00", timeZone: "Europe/Berlin" };
+  assert("a span across a DST change keeps its real length", viewerDays(dstNight, "UTC").date === "2025-03-29" && formatTimes(dstNight, "UTC") === "23:00–02:00");
+  assert("all-day milestones keep their dates", viewerDays({ date: "2025-03-01", endDate: "2025-03-03" }, "Asia/Tokyo").endDate === "2025-03-03");
+
+  // filter query language
+  const qProjects: Record<string, Project> = { web: { id: "web", name: "Web", color: "#000" }, ops: { id: "ops", name: "Ops Team", color: "#000" } };
+  const qm = (over: Partial<Milestone>): Milestone => ({ id: "q", title: "Beta launch", date: "2025-04-01", endDate: "2025-04-08", projectId: "web", labels: ["risk"], ...over });
+  const q = (text: string, m: Milestone) => matchesQuery(parseQuery(text).node, m, qProjects);
+  assert("query ANDs terms and binds OR tighter", q('project:web label:risk OR label:external -label:done "beta"', qm({})) && !q("project:web label:external OR label:done", qm({})));
+  assert("query negation excludes", !q("-label:risk", qm({})) && q("NOT project:ops", qm({})));
+  assert("query date range overlaps", q("after:2025-04-05 before:2025-06-30", qm({})) && !q("after:2025-04-09", qm({})));
+  assert("query duration compares days", q("duration>5", qm({})) && !q("duration<=5", qm({})));
+  assert("query quoted project names", q('project:"ops team"', qm({ projectId: "ops" })));
+  assert("query reports the bad term", parseQuery("label:x colour:red").error?.start === 8 && parseQuery('"beta').error?.message === "Missing closing quote");
+  assert("query rejects bad dates and dangling OR", !!parseQuery("after:2025-13-01").error && !!parseQuery("label:x OR").error);
+  assert("query suggests labels for the word at the cursor", querySuggestions("-label:ri", 9, [], ["risk", "review"]).suggestions[0]?.insert === "-label:risk ");
+
+  // status & progress
+  const late: Milestone = { id: "l", title: "Late", date: "2025-03-01", endDate: "2025-03-03", projectId: "web", status: "in_progress", progress: 40 };
+  assert("open milestones past their end are overdue", isOverdue(late, "2025-03-04") && !isOverdue(late, "2025-03-03"));
+  assert("done and cancelled are never overdue", !isOverdue(withStatus(late, "done"), "2025-04-01") && !isOverdue({ ...late, status: "cancelled" }, "2025-04-01"));
+  assert("done reads as fully complete", progressOf(withStatus(late, "done")) === 100 && progressOf({ ...late, progress: 140 }) === 100);
+  assert("missing status reads as planned", statusOf({}) === "planned");
+  assert("query filters by status", q("status:at-risk OR status:done", qm({ status: "at_risk" })) && !q("status:in-progress", qm({})) && !!parseQuery("status:later").error);
+
+  // baselines & variance
+  const planned = [qm({ id: "v1", date: "2025-04-01", endDate: "2025-04-03" }), qm({ id: "v2", date: "2025-04-10", endDate: "2025-04-10" })];
+  const committed = captureBaseline(qProjects.web, planned, "Committed", "bl");
+  const report = varianceReport(committed, [{ ...planned[0], date: "2025-04-03", endDate: "2025-04-07" }, qm({ id: "v3", date: "2025-04-20", endDate: "2025-04-20" })]);
+  assert("variance measures start and end slip", report.rows.length === 1 && report.rows[0].startSlip === 2 && report.rows[0].endSlip === 4);
+  assert("variance lists added and removed milestones", report.added[0]?.id === "v3" && report.removed[0]?.id === "v2");
+  assert("variance compares the project end", report.finishSlip === 10 && describeSlip(-2) === "−2d");
+
+  // checklists
+  const items = [
+    { id: "c1", text: "Spec", done: true },
+    { id: "c2", text: "Review", done: false, due: "2025-04-20" },
+  ];
+  const checked = qm({ checklist: items, progressFromChecklist: true });
+  assert("checklist progress reads done/total", describeChecklist(checked) === "1/2" && checklistCounts({}).total === 0);
+  assert("derived completion follows the checklist", deriveFromChecklist(checked).progress === 50 && deriveFromChecklist(checked).status === "in_progress");
+  assert("ticking every item finishes the milestone", deriveFromChecklist({ ...checked, checklist: items.map((i) => ({ ...i, done: true })) }).status === "done");
+  assert("manual progress ignores the checklist", deriveFromChecklist({ ...checked, progressFromChecklist: false, progress: 10 }).progress === 10);
+  assert("checklist due dates stay within the milestone", itemsOutsideRange(items, "2025-04-01", "2025-04-08")[0]?.id === "c2");
+
+  // markdown notes
+  const md = parseMarkdown("# Plan\n- **one**\n- two\n\n```\n#[not a ref]\n```\nSee #[Beta launch] and [docs](https://x.test).");
+  assert("markdown parses headings, lists, code and paragraphs", md.map((b) => b.kind).join() === "heading,list,code,paragraph");
+  assert("unsafe link targets are dropped", safeHref("javascript:alert(1)") === null && parseInline("[x](javascript:alert(1))").every((n) => n.kind === "text"));
+  assert("milestone references skip code", milestoneRefs("```\n#[A]\n```\n`#[B]` #[ beta  launch ]").join() === "beta  launch");
+  const linker = qm({ id: "n1", title: "Plan", notes: "Depends on #[beta launch]" });
+  assert("references resolve by title and show as backlinks", resolveRef("BETA LAUNCH", [linker, qm({})])?.id === "q" && backlinks(qm({}), [linker, qm({})])[0]?.id === "n1");
+
+  // month grid keys
+  const gk = (key: string, mods: Partial<{ ctrlKey: boolean; shiftKey: boolean }> = {}) => {
+    const d = gridKeyTarget({ key, ctrlKey: false, metaKey: false, shiftKey: false, ...mods }, parseISO("2025-03-12"));
+    return d ? format(d, "yyyy-MM-dd") : null;
+  };
+  assert("arrow keys move by day and week", gk("ArrowLeft") === "2025-03-11" && gk("ArrowDown") === "2025-03-19");
+  assert("Home/End go to the week, or with Ctrl the month", gk("Home") === "2025-03-09" && gk("End") === "2025-03-15" && gk("End", { ctrlKey: true }) === "2025-03-31");
+  assert("PageUp/PageDown go by month, or with Shift by year", gk("PageUp") === "2025-02-12" && gk("PageDown", { shiftKey: true }) === "2026-03-12" && gk("a") === null);
+
+  // project hierarchy
+  const family: Project[] = [
+    { id: "prog", name: "Program", color: "#000" },
+    { id: "p1", name: "P1", color: "#000", parentId: "prog" },
+    { id: "p2", name: "P2", color: "#000", parentId: "p1" },
+    { id: "lone", name: "Lone", color: "#000", parentId: "gone" },
+  ];
+  assert("project tree nests children after their parent", projectTree(family).map((n) => `${n.project.id}:${n.depth}`).join() === "prog:0,p1:1,p2:2,lone:0");
+  assert("a group covers its whole subtree", subtreeIds(family, "prog").size === 3 && !canNestUnder(family, "prog", "p2") && canNestUnder(family, "lone", "p2"));
+  const counts = rollUpCounts(family, [qm({ projectId: "p2" }), qm({ projectId: "p1", date: "2999-01-01", endDate: "2999-01-01" })], "2025-06-01");
+  assert("counts roll up to parents", counts.get("prog")?.milestones === 2 && counts.get("prog")?.overdue === 1 && counts.get("p2")?.milestones === 1);
+  assert("parent cycles don't hide projects", projectTree([{ ...family[0], parentId: "p1" }, family[1]]).length === 2);
+
+  // trash
+  const linked = qm({ id: "t2", projectId: "ops", dependencies: [{ predecessorId: "t1", type: "FS", lagDays: 0 }] });
+  const impact = projectDeletionImpact("web", [qm({ id: "t1" }), linked]);
+  assert("project deletion counts milestones and incoming links", impact.milestones.length === 1 && impact.links === 1);
+  const binned = trashEntry(qProjects.web, impact.milestones, "e1");
+  const back = restoreEntry(binned, [qProjects.ops], [{ ...linked, dependencies: [] }]);
+  assert("restoring a project brings its milestones back", typeof back !== "string" && back.projects.length === 2 && back.milestones.length === 2);
+  assert("milestones of a deleted project restore only with it", typeof restoreEntry(trashEntry(null, impact.milestones, "e2"), [], []) === "string");
+  assert("trash entries drop once their records are back", dropRestored([binned], [qProjects.web], []).length === 0 && trashOf([binned, { id: "x" }]).length === 1);
+
+  // view state in the URL
+  const today = parseISO("2025-05-20");
+  const shared: ViewState = { date: "2025-07-01", mode: "timeline", zoom: "quarter", projectId: "web", labels: ["risk", "external"], query: 'label:risk "beta"' };
+  assert("view state round-trips through the URL", JSON.stringify(viewStateFromSearch(viewStateToSearch(shared, today), today)) === JSON.stringify(shared));
+  assert("default view state leaves the URL clean", viewStateToSearch(viewStateFromSearch("", today), today) === "");
+  assert("unknown URL values fall back to defaults", viewStateFromSearch("?view=gantt&zoom=decade&date=2025-02-30", today).mode === "calendar" && viewStateFromSearch("?date=2025-02-30", today).date === "2025-05-20");
+
+  // undo history
+  const s0 = { projects: [], milestones: [a] };
+  const s1 = { projects: [], milestones: [] };
+  assert("deletions are named and flagged destructive", describeChange(s0, s1).label === "Delete “A”" && describeChange(s0, s1).destructive);
+  const h1 = recordChange(recordChange(EMPTY_HISTORY, s0, "Edit “A”", 1000), s1, "Edit “A”", 1500);
+  assert("rapid repeats of an edit coalesce", h1.past.length === 1 && h1.past[0].snapshot === s0);
+  const u = undoStep(h1, s1);
+  assert("undo restores the snapshot and enables redo", u?.snapshot === s0 && redoStep(u!.history, s0)?.snapshot === s1);
+
+  // storage diffs
+  const a2 = { ...a, title: "A2" };
+  const changes = diffRecords([a, b], [a2]);
+  assert("storage writes only changed and removed records", changes.put[0] === a2 && changes.remove.join() === "b" && changes.reordered);
+  // Loading is async, so a failure here is logged rather than thrown
+  const stored: StoredData = { schemaVersion: SCHEMA_VERSION, projects: [], milestones: [a, { id: "bad", title: "Bad", date: "soon", projectId: "p" }], settings: {}, quarantine: [], trash: [], problems: [] };
+  const memory: StorageAdapter = {
+    label: "memory",
+    read: async () => structuredClone(stored),
+    writeRecords: async () => {},
+    writeMeta: async (key, value) => void (key === "quarantine" && (stored.quarantine = value as QuarantinedRecord[])),
+    replaceAll: async (ps, ms) => void Object.assign(stored, { projects: ps, milestones: ms }),
+  };
+  loadFrom(memory)
+    .then(() => loadFrom(memory))
+    .then((again) => assert("quarantined records survive the next load", again.quarantine.length === 1 && again.quarantine[0].reason.includes("date") && again.data.milestones.length === 1))
+    .catch((e) => console.error(e));
+
+  // cross-tab merge
+  const older = { ...a, title: "old", updatedAt: "2025-01-01T10:00:00.000Z" };
+  const newer = { ...a, title: "new", updatedAt: "2025-01-01T11:00:00.000Z" };
+  const graves = new Map<string, string>();
+  assert("newer remote edit wins", mergeRemote([older], { source: "t", store: "milestones", put: [newer], remove: [] }, graves)?.[0].title === "new");
+  assert("older remote edit is ignored", mergeRemote([newer], { source: "t", store: "milestones", put: [older], remove: [] }, graves) === null);
+  assert("remote delete loses to a later local edit", mergeRemote([newer], { source: "t", store: "milestones", put: [], remove: [{ id: "a", at: "2025-01-01T10:30:00.000Z" }] }, graves) === null);
+  const stamps = new Map([["settings" as const, "2025-01-01T10:00:00.000Z"]]);
+  assert("a newer settings document from another tab wins", acceptMeta({ source: "t", meta: "settings", value: {}, at: "2025-01-01T11:00:00.000Z" }, stamps));
+  assert("an older one loses to a later local change", !acceptMeta({ source: "t", meta: "settings", value: {}, at: "2025-01-01T10:30:00.000Z" }, stamps));
+  assert("stale put does not resurrect a deleted record", mergeRemote([], { source: "t", store: "milestones", put: [older], remove: [] }, graves) === null);
+
+  // server sync
+  const queued = enqueueOps([{ store: "milestones", id: "a", op: "put", record: a, baseRev: 2 }], [{ store: "milestones", id: "a", op: "remove", baseRev: 7 }]);
+  assert("queued edits coalesce per record and keep their base revision", queued.length === 1 && queued[0].op === "remove" && queued[0].baseRev === 2);
+  const pulled = applyServerChanges([a, b], "milestones", [{ store: "milestones", id: "a", rev: 3, record: null }, { store: "milestones", id: "b", rev: 4, record: { ...b, title: "B2" } }], new Set(["milestones:b"]), []);
+  assert("pulled changes skip records with unsent local edits", pulled?.length === 1 && pulled[0] === b);
+  const rejected: QuarantinedRecord[] = [];
+  const badPull = applyServerChanges([a], "milestones", [{ store: "milestones", id: "a", rev: 5, record: { ...a, date: "soon" } }], new Set(), rejected);
+  assert("malformed server records are quarantined, not applied", badPull === null && rejected.length === 1 && rejected[0].kind === "milestone");
+  const putA: SyncOp = { store: "milestones", id: "a", op: "put", record: a, baseRev: 2 };
+  const putB: SyncOp = { store: "milestones", id: "b", op: "put", record: b, baseRev: 4 };
+  const storedSync = parseServerSyncState({ endpoint: "http://sync", lastRev: "7", revs: { "milestones:a": 2, "milestones:b": "x" }, queue: [putA, { store: "nope", id: "x" }, { ...putB, record: { id: "b" } }], conflicts: "none" });
+  assert("stored sync state drops malformed parts", storedSync.lastRev === 0 && Object.keys(storedSync.revs).join() === "milestones:a" && storedSync.queue.length === 1 && storedSync.conflicts.length === 0);
+  // Another tab queued putB while putA was in flight; the stored queue is a re-read copy
+  const settled = settlePush({ ...storedSync, queue: JSON.parse(JSON.stringify([putA, putB])) }, [putA], [{ store: "milestones", id: "a", status: "ok", rev: 8 }]);
+  assert("settling a push keeps ops queued by other tabs", settled.patch.queue?.length === 1 && settled.patch.queue[0].id === "b" && settled.patch.revs?.["milestones:a"] === 8 && settled.refused === 0);
 }
 
 // -----------------------------
@@ -208,10 +900,21 @@ function runSelfTests() {
 // -----------------------------
 
 export default function ProjectCalendarApp() {
-  const [viewDate, setViewDate] = useState<Date>(new Date());
-  const [projects, setProjects] = useState<Project[]>(() => readLS<Project[]>(LS_KEY_PROJECTS, []));
-  const [milestones, setMilestones] = useState<Milestone[]>(() => readLS<Milestone[]>(LS_KEY_MILESTONES, []));
-  const [newProject, setNewProject] = useState({ name: "", color: COLOR_OPTIONS[0] });
+  // The view (month, mode, zoom, filters) starts from the URL, so links open where they were shared
+  const [initialView] = useState(() => viewStateFromSearch(window.location.search));
+  const [viewDate, setViewDate] = useState<Date>(() => parseISO(initialView.date));
+  const [projects, setProjectsState] = useState<Project[]>([]);
+  const [milestones, setMilestonesState] = useState<Milestone[]>([]);
+  // Local edits go through these, which stamp every new or changed record with updatedAt;
+  // loading and changes merged in from other tabs use the raw setters
+  const setProjects: React.Dispatch<React.SetStateAction<Project[]>> = (u) =>
+    setProjectsState((prev) => stampChanges(prev, typeof u === "function" ? u(prev) : u));
+  const setMilestones: React.Dispatch<React.SetStateAction<Milestone[]>> = (u) =>
+    setMilestonesState((prev) => stampChanges(prev, typeof u === "function" ? u(prev) : u));
+  const [settings, setSettings] = useState<AppSettings>({});
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const [newProject, setNewProject] = useState({ name: "", color: COLOR_OPTIONS[0], parentId: "" });
   const [newMilestone, setNewMilestone] = useState({
     title: "",
     date: format(new Date(), "yyyy-MM-dd"),
@@ -220,11 +923,40 @@ export default function ProjectCalendarApp() {
     notes: "",
     labels: [] as string[],
   });
-  const [mode, setMode] = useState<"calendar" | "timeline">("calendar");
+  const [mode, setMode] = useState<ViewMode>(initialView.mode);
+  const [timelineZoom, setTimelineZoom] = useState<TimelineZoom>(initialView.zoom);
 
   // Filters
-  const [filterProjectId, setFilterProjectId] = useState<string>("all");
-  const [filterLabels, setFilterLabels] = useState<string[]>([]);
+  const [filterProjectId, setFilterProjectId] = useState<string>(initialView.projectId);
+  const [filterLabels, setFilterLabels] = useState<string[]>(initialView.labels);
+  const [filterQuery, setFilterQuery] = useState(initialView.query);
+
+  // Program/portfolio rows folded away on the timeline
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+
+  // Baselines: capture form, the one drawn as ghost bars, and the variance report dialog
+  const [baselineProjectId, setBaselineProjectId] = useState("");
+  const [baselineName, setBaselineName] = useState("");
+  const [compareBaselineId, setCompareBaselineId] = useState("");
+  const [varianceBaselineId, setVarianceBaselineId] = useState<string | null>(null);
+
+  // Project edit dialog, delete confirmation, trash bin and the archived list
+  const [projectDraft, setProjectDraft] = useState<{ id: string; name: string; color: string; parentId: string; description: string; owner: string } | null>(null);
+  const [deletingProjectId, setDeletingProjectId] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [confirmEmptyTrash, setConfirmEmptyTrash] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Month grid keyboard focus (one tabbable day), keyboard move mode and screen reader announcements
+  const [focusDay, setFocusDay] = useState(() => initialView.date);
+  const [focusRequest, setFocusRequest] = useState(0); // bumped to move DOM focus to focusDay
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [moving, setMoving] = useState<{ id: string; occurrenceDate: string; title: string } | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  // Saved views dialog
+  const [showSavedViews, setShowSavedViews] = useState(false);
+  const [newViewName, setNewViewName] = useState("");
 
   // Modal state for create/edit
   const [modalOpen, setModalOpen] = useState(false);
@@ -236,6 +968,15 @@ export default function ProjectCalendarApp() {
     projectId: string;
     notes: string;
     labels: string[];
+    dependencies: Dependency[];
+    recurrence: Recurrence | null;
+    startTime: string; // "" => all-day
+    endTime: string;
+    timeZone: string;
+    status: MilestoneStatus;
+    progress: number;
+    checklist: ChecklistItem[];
+    progressFromChecklist: boolean;
   }>({
     title: "",
     date: format(new Date(), "yyyy-MM-dd"),
@@ -243,20 +984,426 @@ export default function ProjectCalendarApp() {
     projectId: "",
     notes: "",
     labels: [],
+    dependencies: [],
+    recurrence: null,
+    startTime: "",
+    endTime: "",
+    timeZone: viewerTimeZone(),
+    status: "planned",
+    progress: 0,
+    checklist: [],
+    progressFromChecklist: false,
   });
+  const [draftError, setDraftError] = useState("");
+  const [notesTab, setNotesTab] = useState<"write" | "preview">("write");
+  const timeZones = useMemo(timeZoneOptions, []);
+
+  // Editing or dragging a single occurrence of a recurring series
+  const [editingOccurrence, setEditingOccurrence] = useState<string | null>(null);
+  const [occurrenceScope, setOccurrenceScope] = useState<RecurrenceScope>("this");
+  const [recurringMove, setRecurringMove] = useState<{ series: Milestone; occurrenceDate: string; newStart: string } | null>(null);
+
+  // Pending move that would cascade to dependents (shown for confirmation)
+  const [reschedule, setReschedule] = useState<{ changed: Milestone; shifts: Shift[]; violations: Milestone[]; fromModal: boolean } | null>(null);
+
+  // Timeline dependency arrows, measured from the rendered bars
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const timelineScrollRef = useRef<HTMLDivElement>(null);
+  const timelineFocusRef = useRef<Date | null>(null);
+  const barRefs = useRef(new Map<string, HTMLDivElement>());
+  const [depArrows, setDepArrows] = useState<{ key: string; d: string }[]>([]);
+
+  // Timeline bar being dragged: whole-day offset so far, and the project row under the pointer
+  const [barDrag, setBarDrag] = useState<{ key: string; kind: BarEdit; originX: number; delta: number; fromProjectId: string; projectId: string; moved: boolean } | null>(null);
+
+  // Working calendar being edited in the sidebar, and the holiday being typed in
+  const [calendarEditId, setCalendarEditId] = useState(STANDARD_CALENDAR.id);
+  const [holidayDraft, setHolidayDraft] = useState<Holiday>({ date: "", name: "" });
+  const [holidayImportNote, setHolidayImportNote] = useState("");
+  const holidayInputRef = useRef<HTMLInputElement>(null);
+
+  // iCalendar import dialog
+  const icsInputRef = useRef<HTMLInputElement>(null);
+  const [icsImport, setIcsImport] = useState<{
+    fileName: string;
+    calendar: ICSCalendar | null;
+    error: string;
+    target: string; // project id, or "new" to create one from the calendar name
+    newProjectName: string;
+  } | null>(null);
 
-  useEffect(() => saveLS(LS_KEY_PROJECTS, projects), [projects]);
-  useEffect(() => saveLS(LS_KEY_MILESTONES, milestones), [milestones]);
+  // Backup restore dialog
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [restore, setRestore] = useState<{ fileName: string; result: LoadResult | null; error: string } | null>(null);
+
+  // CSV import dialog (column mapping + per-row preview)
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [csvImport, setCsvImport] = useState<{
+    fileName: string;
+    header: string[];
+    rows: string[][];
+    mapping: CSVMapping;
+    dateFormat: string;
+    defaultProjectId: string; // "" when rows must name their project
+    error: string;
+  } | null>(null);
+
+  // Undo/redo: every change to projects or milestones is recorded here, whichever handler made it
+  const [history, setHistory] = useState(EMPTY_HISTORY);
+  const lastSnapshot = useRef<Snapshot>({ projects, milestones });
+  const restoringHistory = useRef(false); // set for undo/redo and for changes synced from other tabs
+  const [toast, setToast] = useState<{ message: string; undo: boolean; id: number } | null>(null);
 
   useEffect(() => {
-    // If there are projects but no project selected for forms, pick the first
-    if (!newMilestone.projectId && projects.length) {
-      setNewMilestone((m) => ({ ...m, projectId: projects[0].id }));
+    const before = lastSnapshot.current;
+    if (before.projects === projects && before.milestones === milestones) return;
+    const after = { projects, milestones };
+    lastSnapshot.current = after;
+    if (restoringHistory.current) {
+      restoringHistory.current = false;
+      return;
     }
-    if (!draft.projectId && projects.length) {
-      setDraft((d) => ({ ...d, projectId: projects[0].id }));
+    const { label, destructive } = describeChange(before, after);
+    setHistory((h) => recordChange(h, before, label, Date.now()));
+    // Offer a one-click undo after deletions; any later change makes that offer stale
+    setToast(destructive ? { message: label, undo: true, id: Date.now() } : null);
+  }, [projects, milestones]);
+
+  const restoreSnapshot = (step: ReturnType<typeof undoStep>, verb: string) => {
+    if (!step) return;
+    restoringHistory.current = true;
+    setProjects(step.snapshot.projects);
+    setMilestones(step.snapshot.milestones);
+    setHistory(step.history);
+    setToast({ message: `${verb}: ${step.label}`, undo: false, id: Date.now() });
+  };
+  const undo = () => restoreSnapshot(undoStep(history, { projects, milestones }), "Undone");
+  const redo = () => restoreSnapshot(redoStep(history, { projects, milestones }), "Redone");
+
+  // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z (or Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  useEffect(() => {
+    if (!toast) return;
+    const t = window.setTimeout(() => setToast((cur) => (cur?.id === toast.id ? null : cur)), 6000);
+    return () => window.clearTimeout(t);
+  }, [toast]);
+
+  // Persistence: load once through the storage adapter, then write back only what changed.
+  // Nothing is written until the load finished, so the empty initial state never overwrites data.
+  const storage = useRef<StorageAdapter | null>(null);
+  const persisted = useRef<Snapshot>({ projects: [], milestones: [] });
+  const [loaded, setLoaded] = useState(false);
+  const [storageError, setStorageError] = useState("");
+  const reportStorageError = (e: unknown) => setStorageError(describeStorageError(e));
+
+  useEffect(() => {
+    openStorage()
+      .then(({ adapter, data, quarantine: q, trash: t, notice }) => {
+        storage.current = adapter;
+        persisted.current = lastSnapshot.current = { projects: data.projects, milestones: data.milestones };
+        setProjectsState(data.projects);
+        setMilestonesState(data.milestones);
+        setSettings(data.settings);
+        setQuarantine(q);
+        setTrash(t);
+        // Other tabs read the same storage, so the loaded documents aren't broadcast
+        [data.settings, q, t].forEach((v) => fromRemote.current.add(v));
+        if (notice) setStorageError(notice);
+      })
+      .catch((e) => setStorageError(`Saved data could not be loaded: ${(e as Error)?.message || String(e)}`))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Cross-tab sync: local changes are broadcast per record; incoming ones merge last-writer-wins.
+  // Records and removals that arrived from another tab are remembered so they aren't echoed back.
+  const [tabId] = useState(uuidv4);
+  const syncChannel = useRef<SyncChannel | null>(null);
+  const tombstones = useRef(new Map<string, string>());
+  const fromRemote = useRef(new WeakSet<object>());
+  const removedRemotely = useRef(new Set<string>());
+  const metaStamps = useRef(new Map<MetaStoreName, string>());
+
+  const persistList = <T extends Project | Milestone>(store: RecordStore, prev: T[], next: T[]) => {
+    const changes = diffRecords(prev, next);
+    storage.current?.writeRecords(store, next, changes).catch(reportStorageError);
+    const at = new Date().toISOString();
+    const put = changes.put.filter((r) => !fromRemote.current.has(r));
+    const remove = changes.remove.filter((id) => !removedRemotely.current.delete(id)).map((id) => ({ id, at }));
+    remove.forEach(({ id }) => tombstones.current.set(id, at));
+    if (put.length || remove.length) syncChannel.current?.post({ source: tabId, store, put, remove });
+    if (serverSync.current.endpoint && (put.length || remove.length)) {
+      updateServerSync((s) => {
+        const baseRev = (id: string) => s.revs[syncKey(store, id)] ?? 0;
+        const ops: SyncOp[] = [
+          ...put.map((r): SyncOp => ({ store, id: r.id, op: "put", record: r, baseRev: baseRev(r.id) })),
+          ...remove.map(({ id }): SyncOp => ({ store, id, op: "remove", baseRev: baseRev(id) })),
+        ];
+        return { queue: enqueueOps(s.queue, ops) };
+      });
+      scheduleServerSync();
     }
+  };
+
+  useEffect(() => {
+    const prev = persisted.current.projects;
+    if (!storage.current || prev === projects) return;
+    persisted.current = { ...persisted.current, projects };
+    persistList("projects", prev, projects);
   }, [projects]);
+  useEffect(() => {
+    const prev = persisted.current.milestones;
+    if (!storage.current || prev === milestones) return;
+    persisted.current = { ...persisted.current, milestones };
+    persistList("milestones", prev, milestones);
+  }, [milestones]);
+
+  // Latest lists, also updated right away when a merge is queued so back-to-back messages build on each other
+  const latest = useRef<Snapshot>({ projects, milestones });
+  latest.current = { projects, milestones };
+
+  // Take a list that changed elsewhere (another tab or the sync server) without re-broadcasting,
+  // re-queueing or recording it as an undo step
+  const adoptRemote = (store: RecordStore, next: SyncRecord[]) => {
+    const current: SyncRecord[] = latest.current[store];
+    const before = new Set(current);
+    next.forEach((r) => !before.has(r) && fromRemote.current.add(r));
+    const ids = new Set(next.map((r) => r.id));
+    current.forEach((r) => !ids.has(r.id) && removedRemotely.current.add(r.id));
+    restoringHistory.current = true;
+    latest.current = { ...latest.current, [store]: next };
+    if (store === "projects") setProjectsState(next as Project[]);
+    else setMilestonesState(next as Milestone[]);
+  };
+
+  useEffect(() => {
+    if (!loaded) return;
+    const channel = openSyncChannel((msg) => {
+      if (msg.source === tabId) return;
+      if ("meta" in msg) {
+        if (!acceptMeta(msg, metaStamps.current)) return;
+        // Documents are checked like stored ones before they replace this tab's copy
+        if (msg.meta === "settings") {
+          const next: AppSettings = isObject(msg.value) ? msg.value : {};
+          fromRemote.current.add(next);
+          setSettings(next);
+        } else if (msg.meta === "trash") {
+          const next = trashOf(msg.value);
+          fromRemote.current.add(next);
+          setTrash(next);
+        } else {
+          const next = (Array.isArray(msg.value) ? msg.value : []) as QuarantinedRecord[];
+          fromRemote.current.add(next);
+          setQuarantine(next);
+        }
+        return;
+      }
+      const next = mergeRemote<SyncRecord>(latest.current[msg.store], msg as SyncMessage<SyncRecord>, tombstones.current);
+      if (next) adoptRemote(msg.store, next);
+    });
+    syncChannel.current = channel;
+    return () => {
+      channel.close();
+      syncChannel.current = null;
+    };
+  }, [loaded]);
+  // Optional server sync: local edits queue as ops (persisted, so they survive going offline or
+  // reloading) and are pushed when the server is reachable; server changes are pulled on a timer.
+  // Edits the server refuses wait in `conflicts` (also persisted) until the user picks a side.
+  // All tabs share one stored state, so every change is applied to the latest stored copy.
+  const [initialServerSync] = useState(loadServerSyncState);
+  const serverSync = useRef<ServerSyncState>(initialServerSync);
+  const [syncEndpoint, setSyncEndpoint] = useState(serverSync.current.endpoint);
+  const [endpointDraft, setEndpointDraft] = useState(serverSync.current.endpoint || "http://localhost:8787");
+  const [syncQueued, setSyncQueued] = useState(serverSync.current.queue.length);
+  const [syncStatus, setSyncStatus] = useState<{ state: "idle" | "syncing" | "synced" | "offline" | "error"; message: string; at?: Date }>({ state: "idle", message: "" });
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>(serverSync.current.conflicts);
+  const [conflictPicks, setConflictPicks] = useState<string[]>([]); // fields to take from "mine" when merging
+  const [showConflicts, setShowConflicts] = useState(false);
+  const syncRunning = useRef(false);
+  const syncTimer = useRef<number | undefined>(undefined);
+
+  const showServerSync = (s: ServerSyncState) => {
+    serverSync.current = s;
+    setSyncQueued(s.queue.length);
+    setSyncConflicts(s.conflicts);
+  };
+
+  const updateServerSync = (patch: Partial<ServerSyncState> | ((s: ServerSyncState) => Partial<ServerSyncState>)) => {
+    const stored = loadServerSyncState();
+    const next = { ...stored, ...(typeof patch === "function" ? patch(stored) : patch) };
+    saveServerSyncState(next);
+    showServerSync(next);
+  };
+
+  useEffect(
+    () =>
+      watchServerSyncState((s) => {
+        showServerSync(s);
+        setSyncEndpoint(s.endpoint);
+      }),
+    []
+  );
+
+  const runServerSync = async () => {
+    const { endpoint } = serverSync.current;
+    if (!endpoint || syncRunning.current) return;
+    syncRunning.current = true;
+    setSyncStatus((st) => ({ ...st, state: "syncing" }));
+    try {
+      // Push first, so the pull below already sees our accepted edits
+      const sent = serverSync.current.queue;
+      if (sent.length) {
+        const { results } = await pushOps(endpoint, tabId, sent);
+        let refused = 0;
+        updateServerSync((s) => {
+          const settled = settlePush(s, sent, results);
+          refused = settled.refused;
+          return settled.patch;
+        });
+        if (refused) setShowConflicts(true);
+      }
+      const { rev, changes } = await pullChanges(endpoint, serverSync.current.lastRev);
+      const { revs } = serverSync.current;
+      // Skip our own echoes, unsent local edits and records waiting on a conflict decision
+      const pending = new Set([...serverSync.current.queue, ...serverSync.current.conflicts].map((q) => syncKey(q.store, q.id)));
+      const incoming = changes.filter((c) => revs[syncKey(c.store, c.id)] !== c.rev);
+      const rejected: QuarantinedRecord[] = [];
+      const at = new Date().toISOString();
+      for (const store of ["projects", "milestones"] as const) {
+        const before: SyncRecord[] = latest.current[store];
+        const next = applyServerChanges(before, store, incoming, pending, rejected);
+        if (!next) continue;
+        adoptRemote(store, next);
+        // Other tabs pull from the shared lastRev, so they get these records from this one
+        const had = new Set(before);
+        const ids = new Set(next.map((r) => r.id));
+        syncChannel.current?.post({ source: tabId, store, put: next.filter((r) => !had.has(r)), remove: before.filter((r) => !ids.has(r.id)).map((r) => ({ id: r.id, at })) });
+      }
+      if (rejected.length) setQuarantine((q) => [...q, ...rejected]);
+      const pulledRevs = Object.fromEntries(incoming.filter((c) => !pending.has(syncKey(c.store, c.id))).map((c) => [syncKey(c.store, c.id), c.rev]));
+      updateServerSync((s) => ({ lastRev: Math.max(s.lastRev, rev), revs: { ...s.revs, ...pulledRevs } }));
+      setSyncStatus({ state: "synced", message: "", at: new Date() });
+    } catch (e) {
+      setSyncStatus({ state: isNetworkError(e) ? "offline" : "error", message: (e as Error)?.message || String(e) });
+    } finally {
+      syncRunning.current = false;
+    }
+  };
+  // Timers and listeners always call the latest closure
+  const runServerSyncRef = useRef(runServerSync);
+  runServerSyncRef.current = runServerSync;
+
+  const scheduleServerSync = () => {
+    window.clearTimeout(syncTimer.current);
+    syncTimer.current = window.setTimeout(() => runServerSyncRef.current(), 800);
+  };
+
+  useEffect(() => {
+    if (!loaded || !syncEndpoint) return;
+    const run = () => runServerSyncRef.current();
+    run();
+    const interval = window.setInterval(run, 15000);
+    window.addEventListener("online", run);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener("online", run);
+    };
+  }, [loaded, syncEndpoint]);
+
+  // Connecting offers every local record to the server; ones it already has come back as conflicts
+  const connectServerSync = () => {
+    const endpoint = endpointDraft.trim().replace(/\/+$/, "");
+    if (!/^https?:\/\//i.test(endpoint)) {
+      setSyncStatus({ state: "error", message: "Enter an http:// or https:// address." });
+      return;
+    }
+    const ops: SyncOp[] = [
+      ...projects.map((r): SyncOp => ({ store: "projects", id: r.id, op: "put", record: r, baseRev: 0 })),
+      ...milestones.map((r): SyncOp => ({ store: "milestones", id: r.id, op: "put", record: r, baseRev: 0 })),
+    ];
+    updateServerSync({ ...EMPTY_SYNC_STATE, endpoint, queue: ops });
+    setSyncEndpoint(endpoint);
+  };
+
+  const disconnectServerSync = () => {
+    updateServerSync(EMPTY_SYNC_STATE);
+    setSyncEndpoint("");
+    setSyncStatus({ state: "idle", message: "" });
+  };
+
+  const resolveConflict = (c: SyncConflict, choice: "mine" | "theirs" | "merge") => {
+    const key = syncKey(c.store, c.id);
+    // Whatever is chosen now builds on the server's current revision
+    updateServerSync((s) => ({
+      revs: { ...s.revs, [key]: c.theirsRev },
+      conflicts: s.conflicts.filter((x) => syncKey(x.store, x.id) !== key),
+    }));
+    setConflictPicks([]);
+    const list: SyncRecord[] = latest.current[c.store];
+    if (choice === "theirs") {
+      const next = !c.theirs ? list.filter((r) => r.id !== c.id) : list.some((r) => r.id === c.id) ? list.map((r) => (r.id === c.id ? c.theirs! : r)) : [...list, c.theirs];
+      adoptRemote(c.store, next);
+    } else if (choice === "merge" && c.mine && c.theirs) {
+      // A normal local edit: it is stamped, broadcast and queued against theirsRev
+      const merged = mergeConflict(list.find((r) => r.id === c.id) || c.mine, c.theirs, conflictPicks);
+      if (c.store === "projects") setProjects((ps) => ps.map((p) => (p.id === c.id ? (merged as Project) : p)));
+      else setMilestones((ms) => ms.map((m) => (m.id === c.id ? (merged as Milestone) : m)));
+    } else {
+      const current = list.find((r) => r.id === c.id);
+      const op: SyncOp = current ? { store: c.store, id: c.id, op: "put", record: current, baseRev: c.theirsRev } : { store: c.store, id: c.id, op: "remove", baseRev: c.theirsRev };
+      updateServerSync((s) => ({ queue: enqueueOps(s.queue.filter((q) => syncKey(q.store, q.id) !== key), [op]) }));
+      scheduleServerSync();
+    }
+  };
+
+  const activeConflict = syncConflicts[0];
+  const conflictFieldList = activeConflict?.mine && activeConflict.theirs ? conflictFields(activeConflict.mine, activeConflict.theirs) : [];
+  const conflictName = (r: SyncRecord | null) => (!r ? "" : "title" in r ? r.title : r.name);
+  const showConflictValue = (v: unknown) => (v == null || v === "" ? "—" : typeof v === "string" ? v : JSON.stringify(v)).slice(0, 120);
+
+  // Settings, quarantine and trash are written whole and broadcast as whole documents; copies that
+  // came from storage or another tab are already saved there
+  const persistMeta = (key: MetaStoreName, value: object) => {
+    if (!loaded || !storage.current || fromRemote.current.has(value)) return;
+    storage.current?.writeMeta(key, value).catch(reportStorageError);
+    const at = new Date().toISOString();
+    metaStamps.current.set(key, at);
+    syncChannel.current?.post({ source: tabId, meta: key, value, at });
+  };
+  useEffect(() => persistMeta("settings", settings), [settings, loaded]);
+  useEffect(() => persistMeta("quarantine", quarantine), [quarantine, loaded]);
+  useEffect(() => persistMeta("trash", trash), [trash, loaded]);
+  // Undo or another tab may bring deleted records back; their trash entries are then spent
+  useEffect(() => setTrash((t) => dropRestored(t, projects, milestones)), [projects, milestones]);
+
+  // Archived projects keep their data but drop out of views, filters and pickers
+  const activeProjects = useMemo(() => projects.filter((p) => !p.archived), [projects]);
+  // Programs first, their projects indented below
+  const projectNodes = useMemo(() => projectTree(activeProjects), [activeProjects]);
+
+  useEffect(() => {
+    // Forms use the first active project until one is picked (or theirs is archived or deleted)
+    if (activeProjects.length && !activeProjects.some((p) => p.id === newMilestone.projectId)) {
+      setNewMilestone((m) => ({ ...m, projectId: activeProjects[0].id }));
+    }
+    if (!draft.projectId && activeProjects.length) {
+      setDraft((d) => ({ ...d, projectId: activeProjects[0].id }));
+    }
+  }, [activeProjects]);
 
   useEffect(() => {
     try {
@@ -269,6 +1416,67 @@ export default function ProjectCalendarApp() {
 
   const monthLabel = format(viewDate, "MMMM yyyy");
 
+  // Header navigation steps by the unit the current view shows
+  const stepView = (dir: 1 | -1) =>
+    setViewDate((d) =>
+      mode === "timeline" ? stepPeriod(d, timelineZoom, dir) : mode === "week" ? addWeeks(d, dir) : mode === "agenda" ? addDays(d, dir * AGENDA_DAYS) : addMonths(d, dir)
+    );
+  const stepUnit = mode === "timeline" ? timelineZoom : mode === "week" ? "week" : mode === "agenda" ? `${AGENDA_DAYS} days` : "month";
+
+  // -----------------------------
+  // View state in the URL, saved views
+  // -----------------------------
+
+  const currentView: ViewState = { date: format(viewDate, "yyyy-MM-dd"), mode, zoom: timelineZoom, projectId: filterProjectId, labels: filterLabels, query: filterQuery };
+  const currentSearch = viewStateToSearch(currentView);
+
+  const applyView = (v: ViewState) => {
+    setViewDate(parseISO(v.date));
+    setMode(v.mode);
+    setTimelineZoom(v.zoom);
+    setFilterProjectId(v.projectId);
+    setFilterLabels(v.labels);
+    setFilterQuery(v.query);
+  };
+
+  // Every view change is a history entry, so back/forward step through views. Typing in the
+  // query box replaces the current entry instead of adding one per keystroke.
+  const lastPushedView = useRef(currentView);
+  useEffect(() => {
+    if (currentSearch === window.location.search) return; // also the case right after back/forward
+    const url = `${window.location.pathname}${currentSearch}${window.location.hash}`;
+    const onlyQueryChanged = viewStateToSearch({ ...lastPushedView.current, query: filterQuery }) === currentSearch;
+    if (onlyQueryChanged) window.history.replaceState(null, "", url);
+    else window.history.pushState(null, "", url);
+    lastPushedView.current = currentView;
+  }, [currentSearch]);
+
+  useEffect(() => {
+    const onPop = () => {
+      const v = viewStateFromSearch(window.location.search);
+      lastPushedView.current = v;
+      applyView(v);
+    };
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  }, []);
+
+  const savedViews = useMemo(() => savedViewsOf(settings), [settings]);
+  const activeSavedView = savedViews.find((v) => v.search === currentSearch);
+  const setSavedViews = (update: (list: SavedView[]) => SavedView[]) => setSettings((s) => ({ ...s, savedViews: update(savedViewsOf(s)) }));
+
+  const saveCurrentView = () => {
+    const name = newViewName.trim();
+    if (!name) return;
+    setSavedViews((list) => [...list, { id: uuidv4(), name, search: currentSearch }]);
+    setNewViewName("");
+  };
+
+  const openSavedView = (id: string) => {
+    const v = savedViews.find((x) => x.id === id);
+    if (v) applyView(viewStateFromSearch(v.search));
+  };
+
   // Helpers: derived sets
   const allLabels = useMemo(() => {
     const set = new Set<string>();
@@ -276,10 +1484,32 @@ export default function ProjectCalendarApp() {
     return Array.from(set).sort();
   }, [milestones]);
 
-  const applyFilters = (ms: Milestone[]) =>
+  // Critical path & slack per project, from the unfiltered plan
+  const schedule = useMemo(() => analyzeSchedules(milestones), [milestones]);
+
+  // All-day milestones sort before timed ones starting the same day
+  const startsAt = (m: Milestone) => milestoneInstants(m)?.start.getTime() ?? 0;
+
+  const projectsMap = useMemo(() => Object.fromEntries(projects.map((p) => [p.id, p])), [projects]);
+  const parsedQuery = useMemo(() => parseQuery(filterQuery), [filterQuery]);
+
+  // A shared link may name a project this browser doesn't have (or one that was just deleted)
+  useEffect(() => {
+    if (loaded && filterProjectId !== "all" && (!projectsMap[filterProjectId] || projectsMap[filterProjectId].archived)) setFilterProjectId("all");
+  }, [loaded, projectsMap, filterProjectId]);
+  const projectNames = useMemo(() => activeProjects.map((p) => p.name), [activeProjects]);
+
+  // Picking a program selects all of its projects
+  const filterScope = useMemo(() => (filterProjectId === "all" ? null : subtreeIds(projects, filterProjectId)), [projects, filterProjectId]);
+
+  // Project picker, label chips and the query all apply. Views filter expanded occurrences, so
+  // date terms see each occurrence's own dates.
+  const applyFilters = <T extends Milestone>(ms: T[]) =>
     ms
-      .filter((m) => (filterProjectId === "all" ? true : m.projectId === filterProjectId))
-      .filter((m) => (filterLabels.length ? hasAllLabels(m.labels, filterLabels) : true));
+      .filter((m) => !projectsMap[m.projectId]?.archived)
+      .filter((m) => (filterScope ? filterScope.has(m.projectId) : true))
+      .filter((m) => (filterLabels.length ? hasAllLabels(m.labels, filterLabels) : true))
+      .filter((m) => matchesQuery(parsedQuery.node, m, projectsMap));
 
   // Calendar grid days (6 weeks to cover all cases)
   const calendarDays = useMemo(() => {
@@ -294,12 +1524,36 @@ export default function ProjectCalendarApp() {
     return days;
   }, [viewDate]);
 
+  // Week view: the 7 days around viewDate
+  const weekDays = useMemo(() => {
+    const start = startOfWeek(viewDate, { weekStartsOn: 0 });
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }, [viewDate]);
+
+  // Date window the current view needs occurrences for
+  const visibleRange = useMemo(() => {
+    if (mode === "week") return { start: weekDays[0], end: weekDays[6] };
+    if (mode === "agenda") return { start: startOfDay(viewDate), end: addDays(startOfDay(viewDate), AGENDA_DAYS - 1) };
+    return { start: calendarDays[0], end: calendarDays[calendarDays.length - 1] };
+  }, [mode, viewDate, weekDays, calendarDays]);
+
+  const periodLabel =
+    mode === "timeline"
+      ? describePeriod(viewDate, timelineZoom)
+      : mode === "week"
+      ? `${format(weekDays[0], "MMM d")} – ${format(weekDays[6], isSameMonth(weekDays[0], weekDays[6]) ? "d, yyyy" : "MMM d, yyyy")}`
+      : mode === "agenda"
+        ? `${format(visibleRange.start, "MMM d")} – ${format(visibleRange.end, "MMM d, yyyy")}`
+        : monthLabel;
+
   const milestonesByDay = useMemo(() => {
-    const map = new Map<string, Milestone[]>();
-    const src = applyFilters(milestones);
+    const map = new Map<string, MilestoneInstance[]>();
+    // Timed milestones can land up to a day either side of their written dates in the viewer's zone
+    const src = applyFilters(expandInRange(milestones, addDays(visibleRange.start, -1), addDays(visibleRange.end, 1)));
     for (const m of src) {
-      const s = parseISO(m.date);
-      const e = parseISO(safeEnd(m.date, m.endDate));
+      const days = viewerDays(m);
+      const s = parseISO(days.date);
+      const e = parseISO(days.endDate);
       for (let d = s; d <= e; d = addDays(d, 1)) {
         const key = format(d, "yyyy-MM-dd");
         if (!map.has(key)) map.set(key, []);
@@ -307,129 +1561,826 @@ export default function ProjectCalendarApp() {
       }
     }
     return map;
-  }, [milestones, filterProjectId, filterLabels]);
+  }, [milestones, visibleRange, filterScope, filterLabels, parsedQuery, projectsMap]);
 
-  const projectsMap = useMemo(() => Object.fromEntries(projects.map((p) => [p.id, p])), [projects]);
+  // Agenda: each milestone listed once, under its start day (or the first day for ones already running)
+  const agendaGroups = useMemo(() => {
+    if (mode !== "agenda") return [];
+    const first = format(visibleRange.start, "yyyy-MM-dd");
+    const groups = new Map<string, MilestoneInstance[]>();
+    const last = format(visibleRange.end, "yyyy-MM-dd");
+    for (const m of applyFilters(expandInRange(milestones, addDays(visibleRange.start, -1), addDays(visibleRange.end, 1)))) {
+      const days = viewerDays(m);
+      if (days.endDate < first || days.date > last) continue;
+      const key = days.date < first ? first : days.date;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(m);
+    }
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, items]) => ({ day, items: items.sort((a, b) => viewerDays(a).date.localeCompare(viewerDays(b).date) || startsAt(a) - startsAt(b) || a.title.localeCompare(b.title)) }));
+  }, [mode, milestones, visibleRange, filterScope, filterLabels, parsedQuery, projectsMap]);
+
+  // Working calendars. With working-day durations on, lengths are counted and kept in the
+  // working days of the milestone's project calendar.
+  const workCalendars = useMemo(() => workCalendarsOf(settings), [settings]);
+  const workingDurations = settings.workingDayDurations === true;
+  const calendarOf = (projectId: string) => calendarFor(projectsMap[projectId], settings);
+  // Month and week grids shade by the filtered project's calendar, else the default one
+  const gridCalendar = calendarFor(filterProjectId === "all" ? undefined : projectsMap[filterProjectId], settings);
+
+  const dayShade = (day: Date, holiday?: string) => (holiday ? "bg-amber-50" : isWorkingDay(gridCalendar, day) ? "bg-white" : "bg-slate-100");
+
+  const formatDuration = (m: { projectId: string; date: string; endDate?: string | null }) =>
+    workingDurations ? `${workingDaysBetween(calendarOf(m.projectId), m.date, m.endDate)}wd` : `${durationDays(m.date, m.endDate)}d`;
+
+  const todayISO = format(new Date(), "yyyy-MM-dd");
+
+  // Milestone and overdue counts, parents including their sub-projects
+  const rollUps = useMemo(() => rollUpCounts(activeProjects, milestones, todayISO), [activeProjects, milestones, todayISO]);
+
+  // "March 3rd, 2025 – March 5th, 2025", as the days fall in the viewer's zone
+  const describeDays = (m: Milestone) => {
+    const shown = viewerDays(m);
+    return shown.endDate !== shown.date ? `${format(parseISO(shown.date), "PPP")} – ${format(parseISO(shown.endDate), "PPP")}` : format(parseISO(shown.date), "PPP");
+  };
+
+  // Dates for a milestone moved to start on `newStart` (in the given project's calendar)
+  const shiftedRange = (m: { date: string; endDate?: string | null }, newStart: Date, projectId: string, dir: 1 | -1 = 1) =>
+    workingDurations
+      ? shiftKeepingWorkingDays(calendarOf(projectId), m.date, m.endDate, newStart, dir)
+      : { date: format(newStart, "yyyy-MM-dd"), endDate: format(addDays(newStart, durationDays(m.date, m.endDate) - 1), "yyyy-MM-dd") };
+
+  // Timeline bar edits: resizing is by calendar day, whole-bar moves follow shiftedRange
+  const barRange = (m: { date: string; endDate?: string | null }, kind: BarEdit, delta: number, projectId: string) =>
+    kind === "move" && delta && workingDurations ? shiftedRange(m, addDays(parseISO(m.date), delta), projectId, delta < 0 ? -1 : 1) : editRange(m.date, m.endDate, kind, delta);
 
   const addProject = () => {
     if (!newProject.name.trim()) return;
-    const proj: Project = { id: uuidv4(), name: newProject.name.trim(), color: newProject.color };
+    const proj: Project = { id: uuidv4(), name: newProject.name.trim(), color: newProject.color, parentId: newProject.parentId || null };
     setProjects((p) => [...p, proj]);
-    setNewProject({ name: "", color: COLOR_OPTIONS[Math.floor(Math.random() * COLOR_OPTIONS.length)] });
+    setNewProject({ name: "", color: COLOR_OPTIONS[Math.floor(Math.random() * COLOR_OPTIONS.length)], parentId: newProject.parentId });
   };
 
-  const deleteProject = (id: string) => {
-    setProjects((p) => p.filter((x) => x.id !== id));
-    setMilestones((ms) => ms.filter((m) => m.projectId !== id));
-  };
+  const openEditProject = (p: Project) => setProjectDraft({ id: p.id, name: p.name, color: p.color, parentId: p.parentId || "", description: p.description || "", owner: p.owner || "" });
 
-  const addMilestone = () => {
-    if (!newMilestone.title.trim() || !newMilestone.projectId) return;
-    const end = safeEnd(newMilestone.date, newMilestone.endDate);
-    const ms: Milestone = {
-      id: uuidv4(),
-      title: newMilestone.title.trim(),
-      date: newMilestone.date,
-      endDate: end,
-      projectId: newMilestone.projectId,
-      notes: newMilestone.notes,
-      labels: (newMilestone.labels || []).map((t) => t.trim().toLowerCase().replace(/\s+/g, "-")),
-    };
-    setMilestones((m) => [...m, ms]);
-    setNewMilestone((m) => ({ ...m, title: "" }));
+  const saveProjectDraft = () => {
+    if (!projectDraft || !projectDraft.name.trim()) return;
+    const { id, name, color, description, owner } = projectDraft;
+    const parentId = projectDraft.parentId && canNestUnder(projects, id, projectDraft.parentId) ? projectDraft.parentId : null;
+    setProjects((ps) => ps.map((p) => (p.id === id ? { ...p, name: name.trim(), color, parentId, description: description.trim(), owner: owner.trim() } : p)));
+    setProjectDraft(null);
   };
 
-  const deleteMilestone = (id: string) => setMilestones((m) => m.filter((x) => x.id !== id));
+  // Parents a project may move under: active ones outside its own subtree
+  const parentCandidates = (id: string) => activeProjects.filter((p) => canNestUnder(projects, id, p.id));
 
-  // Create via day click
-  const openCreateForDay = (day: Date) => {
-    const iso = format(day, "yyyy-MM-dd");
-    setEditingId(null);
-    setDraft({ title: "", date: iso, endDate: iso, projectId: projects[0]?.id || "", notes: "", labels: [] });
-    setModalOpen(true);
+  const setArchived = (id: string, archived: boolean) => setProjects((ps) => ps.map((p) => (p.id === id ? { ...p, archived } : p)));
+
+  // Deleted records go to the trash rather than away for good
+  const moveToTrash = (project: Project | null, removed: Milestone[]) => {
+    if (project || removed.length) setTrash((t) => [trashEntry(project, removed, uuidv4()), ...t]);
   };
 
-  // Edit via milestone click
-  const openEditMilestone = (m: Milestone) => {
-    const end = safeEnd(m.date, m.endDate);
-    setEditingId(m.id);
-    setDraft({ title: m.title, date: m.date, endDate: end || m.date, projectId: m.projectId, notes: m.notes || "", labels: m.labels || [] });
-    setModalOpen(true);
+  // Confirmed from the dialog, which shows what goes along with the project. Sub-projects move up
+  // to the deleted project's parent.
+  const deleteProject = (id: string) => {
+    const project = projectsMap[id];
+    if (!project) return;
+    moveToTrash(project, milestones.filter((m) => m.projectId === id));
+    setProjects((p) => p.filter((x) => x.id !== id).map((x) => (x.parentId === id ? { ...x, parentId: project.parentId ?? null } : x)));
+    setMilestones((ms) => pruneDependencies(ms.filter((m) => m.projectId !== id)));
+    setDeletingProjectId(null);
   };
+  const deletingProject = deletingProjectId ? projectsMap[deletingProjectId] : undefined;
+  const deletingChildren = deletingProjectId ? projects.filter((p) => p.parentId === deletingProjectId).length : 0;
+  const deletionImpact = useMemo(() => (deletingProjectId ? projectDeletionImpact(deletingProjectId, milestones) : null), [deletingProjectId, milestones]);
 
-  const saveDraft = () => {
-    if (!draft.title.trim() || !draft.projectId) return;
-    const end = safeEnd(draft.date, draft.endDate);
-    const normLabels = (draft.labels || []).map((t) => t.trim().toLowerCase().replace(/\s+/g, "-"));
-    if (editingId) {
-      setMilestones((ms) =>
-        ms.map((m) =>
-          m.id === editingId
-            ? { ...m, title: draft.title.trim(), date: draft.date, endDate: end, projectId: draft.projectId, notes: draft.notes, labels: normLabels }
-            : m
-        )
-      );
+  const restoreFromTrash = (entry: TrashEntry) => {
+    const result = restoreEntry(entry, projects, milestones);
+    if (typeof result === "string") {
+      setToast({ message: result, undo: false, id: Date.now() });
+      return;
+    }
+    setProjects(result.projects);
+    setMilestones(result.milestones);
+    setTrash((t) => t.filter((e) => e.id !== entry.id));
+  };
+
+  const purgeFromTrash = (id: string) => setTrash((t) => t.filter((e) => e.id !== id));
+
+  // Working calendars live in settings; the built-in Mon–Fri one can be edited but not removed
+  const editedCalendar = workCalendars.find((c) => c.id === calendarEditId) || workCalendars[0];
+
+  const updateCalendar = (id: string, patch: Partial<WorkCalendar>) =>
+    setSettings((s) => ({ ...s, workCalendars: workCalendarsOf(s).map((c) => (c.id === id ? { ...c, ...patch } : c)) }));
+
+  const addCalendar = () => {
+    const cal: WorkCalendar = { id: uuidv4(), name: "New calendar", workingWeekdays: [...STANDARD_CALENDAR.workingWeekdays], holidays: [] };
+    setSettings((s) => ({ ...s, workCalendars: [...workCalendarsOf(s), cal] }));
+    setCalendarEditId(cal.id);
+  };
+
+  const deleteCalendar = (id: string) => {
+    setSettings((s) => ({ ...s, workCalendars: workCalendarsOf(s).filter((c) => c.id !== id), defaultCalendarId: s.defaultCalendarId === id ? undefined : s.defaultCalendarId }));
+    setProjects((ps) => ps.map((p) => (p.calendarId === id ? { ...p, calendarId: null } : p)));
+    setCalendarEditId(STANDARD_CALENDAR.id);
+  };
+
+  const toggleWeekday = (cal: WorkCalendar, d: number) =>
+    updateCalendar(cal.id, { workingWeekdays: cal.workingWeekdays.includes(d) ? cal.workingWeekdays.filter((x) => x !== d) : [...cal.workingWeekdays, d].sort((a, b) => a - b) });
+
+  const addHoliday = () => {
+    if (!holidayDraft.date) return;
+    updateCalendar(editedCalendar.id, { holidays: mergeHolidays(editedCalendar.holidays, [{ date: holidayDraft.date, name: holidayDraft.name.trim() || "Holiday" }]) });
+    setHolidayDraft({ date: "", name: "" });
+  };
+
+  const onPickHolidayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow picking the same file again
+    if (!file) return;
+    try {
+      const incoming = holidaysFromICS(await file.text());
+      if (incoming.length) updateCalendar(editedCalendar.id, { holidays: mergeHolidays(editedCalendar.holidays, incoming) });
+      setHolidayImportNote(incoming.length ? `Imported ${incoming.length} holiday${incoming.length === 1 ? "" : "s"} from ${file.name}.` : `No events found in ${file.name}.`);
+    } catch (err) {
+      setHolidayImportNote((err as Error).message);
+    }
+  };
+
+  // Baselines are snapshots of one project's dates, kept in settings
+  const baselines = useMemo(() => baselinesOf(settings), [settings]);
+  const baselineProject = projectsMap[baselineProjectId] || activeProjects[0];
+  const compareBaseline = baselines.find((b) => b.id === compareBaselineId);
+  const varianceBaseline = baselines.find((b) => b.id === varianceBaselineId);
+  const variance = useMemo(() => (varianceBaseline ? varianceReport(varianceBaseline, milestones) : null), [varianceBaseline, milestones]);
+
+  const captureProjectBaseline = () => {
+    if (!baselineProject) return;
+    const baseline = captureBaseline(baselineProject, milestones, baselineName.trim() || `Baseline ${format(new Date(), "PP")}`, uuidv4());
+    setSettings((s) => ({ ...s, baselines: [...baselinesOf(s), baseline] }));
+    setBaselineName("");
+  };
+
+  // Late is red, early is green
+  const slipClass = (days: number) => (days > 0 ? "text-red-700" : days < 0 ? "text-emerald-700" : "text-slate-500");
+
+  const deleteBaseline = (id: string) => {
+    setSettings((s) => ({ ...s, baselines: baselinesOf(s).filter((b) => b.id !== id) }));
+    if (compareBaselineId === id) setCompareBaselineId("");
+  };
+
+  // iCalendar export: a single project, or whatever the current filters show
+  const exportICS = (projectId?: string) => {
+    const project = projectId ? projectsMap[projectId] : undefined;
+    const list = project ? milestones.filter((m) => m.projectId === project.id) : applyFilters(milestones);
+    const scope = project || (filterProjectId !== "all" ? projectsMap[filterProjectId] : undefined);
+    const calName = scope ? scope.name : "Project Calendar";
+    const ics = milestonesToICS(list, projectsMap, calName);
+    downloadFile(`${slugify(calName)}.ics`, ics, "text/calendar;charset=utf-8");
+  };
+
+  const onPickICSFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow picking the same file again
+    if (!file) return;
+    const fallbackName = file.name.replace(/\.ics$/i, "");
+    try {
+      const calendar = parseICS(await file.text());
+      setIcsImport({
+        fileName: file.name,
+        calendar,
+        error: calendar.events.length ? "" : "No events found in this file.",
+        target: "new",
+        newProjectName: calendar.name || fallbackName,
+      });
+    } catch (err) {
+      setIcsImport({ fileName: file.name, calendar: null, error: (err as Error).message, target: "new", newProjectName: fallbackName });
+    }
+  };
+
+  // Preview rows: events whose UID matches an existing milestone update it in place
+  const icsPreview = useMemo(() => {
+    if (!icsImport?.calendar) return [];
+    const byId = new Map(milestones.map((m) => [m.id, m]));
+    return icsImport.calendar.events.map((ev) => {
+      const id = ev.uid ? milestoneIdFromUID(ev.uid) : "";
+      return { ev, existing: id ? byId.get(id) : undefined };
+    });
+  }, [icsImport, milestones]);
+
+  const confirmICSImport = () => {
+    if (!icsImport?.calendar) return;
+    const hasNew = icsPreview.some((r) => !r.existing);
+    let projectId = icsImport.target;
+    if (projectId === "new") {
+      if (hasNew && !icsImport.newProjectName.trim()) return;
+      projectId = "";
+      if (hasNew) {
+        const proj: Project = { id: uuidv4(), name: icsImport.newProjectName.trim(), color: COLOR_OPTIONS[projects.length % COLOR_OPTIONS.length] };
+        setProjects((p) => [...p, proj]);
+        projectId = proj.id;
+      }
+    }
+    const incoming: Milestone[] = icsPreview.map(({ ev, existing }) => ({
+      id: existing ? existing.id : ev.uid ? milestoneIdFromUID(ev.uid) : uuidv4(),
+      title: ev.title,
+      date: ev.start,
+      endDate: ev.end,
+      // Date-only events clear the times of a milestone they update
+      startTime: ev.startTime,
+      endTime: ev.endTime,
+      timeZone: ev.timeZone,
+      recurrence: ev.recurrence,
+      notes: ev.notes,
+      labels: Array.from(new Set(ev.categories.map(normalizeLabel).filter(Boolean))),
+      // Updated milestones stay in their current project
+      projectId: existing ? existing.projectId : projectId,
+    }));
+    setMilestones((ms) => upsertMilestones(ms, incoming).milestones);
+    setIcsImport(null);
+  };
+
+  const exportCSV = () => {
+    const scope = filterProjectId !== "all" ? projectsMap[filterProjectId] : undefined;
+    const csv = milestonesToCSV(applyFilters(milestones), projectsMap);
+    // BOM so Excel opens UTF-8 correctly
+    downloadFile(`${slugify(scope ? scope.name : "milestones")}.csv`, "\uFEFF" + csv, "text/csv;charset=utf-8");
+  };
+
+  const onPickCSVFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const [header = [], ...rows] = parseCSV(await file.text());
+    const mapping = guessMapping(header);
+    const dateSamples = rows.flatMap((r) => [r[mapping.start] ?? "", mapping.end >= 0 ? r[mapping.end] ?? "" : ""]);
+    setCsvImport({
+      fileName: file.name,
+      header,
+      rows,
+      mapping,
+      dateFormat: detectDateFormat(mapping.start >= 0 ? dateSamples : []),
+      defaultProjectId: "",
+      error: rows.length ? "" : "No data rows found in this file.",
+    });
+  };
+
+  const findProjectByName = (name: string) => projects.find((p) => p.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  const csvPreview = useMemo(() => {
+    if (!csvImport) return { results: [], newProjects: [] as string[] };
+    const results = mapCSVRows(csvImport.rows, csvImport.mapping, csvImport.dateFormat, new Map(milestones.map((m) => [m.id, m])), !!csvImport.defaultProjectId);
+    const newProjects = Array.from(
+      new Map(results.filter((r) => r.milestone && r.projectName && !findProjectByName(r.projectName)).map((r) => [r.projectName.toLowerCase(), r.projectName])).values()
+    );
+    return { results, newProjects };
+  }, [csvImport, milestones, projects]);
+
+  const confirmCSVImport = () => {
+    if (!csvImport) return;
+    const valid = csvPreview.results.filter((r) => r.milestone);
+    if (!valid.length) return;
+    // Create missing projects first so rows can resolve to them by name
+    const created: Project[] = csvPreview.newProjects.map((name, i) => ({ id: uuidv4(), name, color: COLOR_OPTIONS[(projects.length + i) % COLOR_OPTIONS.length] }));
+    const resolve = (name: string) => findProjectByName(name)?.id || created.find((p) => p.name.toLowerCase() === name.toLowerCase())?.id;
+    const existingById = new Map(milestones.map((m) => [m.id, m]));
+    const incoming: Milestone[] = valid.map(({ milestone, projectName }) => {
+      const m = milestone!;
+      const existing = m.id ? existingById.get(m.id) : undefined;
+      const projectId = (projectName && resolve(projectName)) || existing?.projectId || csvImport.defaultProjectId;
+      return { ...m, id: m.id || uuidv4(), projectId };
+    });
+    if (created.length) setProjects((p) => [...p, ...created]);
+    setMilestones((ms) => upsertMilestones(ms, incoming).milestones);
+    setCsvImport(null);
+  };
+
+  const downloadBackup = () => {
+    const doc = createBackup(projects, milestones, settings);
+    downloadFile(`project-calendar-backup-${format(new Date(), "yyyy-MM-dd")}.json`, JSON.stringify(doc, null, 2), "application/json");
+  };
+
+  const onPickBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setRestore({ fileName: file.name, result: parseBackup(await file.text()), error: "" });
+    } catch (err) {
+      setRestore({ fileName: file.name, result: null, error: (err as Error).message });
+    }
+  };
+
+  const confirmRestore = () => {
+    if (!restore?.result) return;
+    const { result } = restore;
+    setProjects(result.projects);
+    setMilestones(result.milestones);
+    setSettings(result.settings);
+    if (result.quarantined.length) setQuarantine((q) => [...q, ...result.quarantined]);
+    setRestore(null);
+  };
+
+  const downloadQuarantine = () =>
+    downloadFile(`project-calendar-quarantine-${format(new Date(), "yyyy-MM-dd")}.json`, JSON.stringify(quarantine, null, 2), "application/json");
+
+  const addMilestone = () => {
+    if (!newMilestone.title.trim() || !newMilestone.projectId) return;
+    const end = safeEnd(newMilestone.date, newMilestone.endDate);
+    const ms: Milestone = {
+      id: uuidv4(),
+      title: newMilestone.title.trim(),
+      date: newMilestone.date,
+      endDate: end,
+      projectId: newMilestone.projectId,
+      notes: newMilestone.notes,
+      labels: (newMilestone.labels || []).map((t) => t.trim().toLowerCase().replace(/\s+/g, "-")),
+    };
+    setMilestones((m) => [...m, ms]);
+    setNewMilestone((m) => ({ ...m, title: "" }));
+  };
+
+  // Quick action from the list: done, or back to in progress
+  const toggleDone = (m: Milestone) => setMilestones((ms) => ms.map((x) => (x.id === m.id ? withStatus(x, statusOf(x) === "done" ? "in_progress" : "done") : x)));
+
+  const deleteMilestone = (id: string) => {
+    moveToTrash(null, milestones.filter((x) => x.id === id));
+    setMilestones((m) => pruneDependencies(m.filter((x) => x.id !== id)));
+  };
+
+  // Create via day click
+  const openCreateForDay = (day: Date) => {
+    const iso = format(day, "yyyy-MM-dd");
+    setEditingId(null);
+    setDraft({ title: "", date: iso, endDate: iso, projectId: activeProjects[0]?.id || "", notes: "", labels: [], dependencies: [], recurrence: null, startTime: "", endTime: "", timeZone: viewerTimeZone(), status: "planned", progress: 0, checklist: [], progressFromChecklist: false });
+    setDraftError("");
+    setNotesTab("write");
+    setEditingOccurrence(null);
+    setModalOpen(true);
+  };
+
+  // Edit via milestone click (an occurrence when opened from an expanded recurring series)
+  const openEditMilestone = (m: MilestoneInstance) => {
+    const end = safeEnd(m.date, m.endDate);
+    setEditingId(m.id);
+    setDraft({
+      title: m.title,
+      date: m.date,
+      endDate: end || m.date,
+      projectId: m.projectId,
+      notes: m.notes || "",
+      labels: m.labels || [],
+      dependencies: m.dependencies || [],
+      recurrence: m.recurrence || null,
+      startTime: m.startTime || "",
+      endTime: m.endTime || "",
+      timeZone: m.timeZone || viewerTimeZone(),
+      status: statusOf(m),
+      progress: progressOf(m),
+      checklist: m.checklist || [],
+      progressFromChecklist: !!m.progressFromChecklist,
+    });
+    setDraftError("");
+    setNotesTab("write");
+    setEditingOccurrence(m.recurrence && m.occurrenceDate ? m.occurrenceDate : null);
+    setOccurrenceScope("this");
+    setModalOpen(true);
+  };
+
+  // Apply a changed milestone together with the dependents it pushes out
+  const applyReschedule = (changed: Milestone, shifts: Shift[]) => {
+    const moves = new Map(shifts.map((s) => [s.id, s.to]));
+    setMilestones((ms) => ms.map((m) => (m.id === changed.id ? changed : moves.has(m.id) ? { ...m, ...moves.get(m.id)! } : m)));
+  };
+
+  // Moves that would shift dependents (or break the milestone's own constraints) go through
+  // a preview first. Returns true when the change was applied right away.
+  const requestReschedule = (changed: Milestone, fromModal = false) => {
+    const shifts = cascadeShifts(milestones, [changed], workingDurations ? (m) => calendarOf(m.projectId) : undefined);
+    const byId = new Map(milestones.map((m) => [m.id, m]));
+    byId.set(changed.id, changed);
+    const violations = violatedPredecessors(changed, byId);
+    if (!shifts.length && !violations.length) {
+      applyReschedule(changed, []);
+      return true;
+    }
+    setReschedule({ changed, shifts, violations, fromModal });
+    return false;
+  };
+
+  const saveDraft = () => {
+    if (!draft.title.trim() || !draft.projectId) return;
+    const end = safeEnd(draft.date, draft.endDate);
+    const normLabels = (draft.labels || []).map((t) => t.trim().toLowerCase().replace(/\s+/g, "-"));
+    const deps = draft.dependencies.filter((d) => d.predecessorId);
+    if (draft.startTime && !isValidTimeZone(draft.timeZone)) {
+      setDraftError(`Unknown time zone "${draft.timeZone}". Use an IANA name such as Europe/Berlin or UTC.`);
+      return;
+    }
+    if (draft.startTime && draft.endTime && end === draft.date && draft.endTime < draft.startTime) {
+      setDraftError("The end time is before the start time.");
+      return;
+    }
+    const timing = draft.startTime
+      ? { startTime: draft.startTime, endTime: draft.endTime || null, timeZone: draft.timeZone }
+      : { startTime: null, endTime: null, timeZone: null };
+    const checklist = draft.checklist.filter((i) => i.text.trim()).map((i) => ({ ...i, text: i.text.trim(), assignee: i.assignee?.trim() || null }));
+    const misdated = itemsOutsideRange(checklist, draft.date, end)[0];
+    if (misdated) {
+      setDraftError(`Checklist item “${misdated.text}” is due outside the milestone's dates.`);
+      return;
+    }
+    const tracking = deriveFromChecklist({ status: draft.status, progress: draft.status === "done" ? 100 : draft.progress, checklist, progressFromChecklist: draft.progressFromChecklist });
+    if (editingId) {
+      const current = milestones.find((m) => m.id === editingId);
+      if (!current) return;
+      const updated: Milestone = { ...current, title: draft.title.trim(), date: draft.date, endDate: end, projectId: draft.projectId, notes: draft.notes, labels: normLabels, dependencies: deps, recurrence: draft.recurrence, ...timing, ...tracking };
+      const cycle = findCycle(milestones.map((m) => (m.id === editingId ? updated : m)));
+      if (cycle) {
+        const names = cycle.map((id) => (id === editingId ? updated : milestones.find((m) => m.id === id))?.title || id);
+        setDraftError(`These dependencies form a cycle: ${[...names, names[0]].join(" → ")}`);
+        return;
+      }
+      if (editingOccurrence && current.recurrence) {
+        const next = splitSeries(current, editingOccurrence, occurrenceScope, updated, uuidv4);
+        if (next.length === 1) {
+          if (!requestReschedule(next[0], true)) return;
+        } else {
+          setMilestones((ms) => ms.flatMap((m) => (m.id === current.id ? next : [m])));
+        }
+        setModalOpen(false);
+        return;
+      }
+      // The edit modal stays open behind the cascade preview until it is confirmed
+      if (!requestReschedule(updated, true)) return;
     } else {
-      const ms: Milestone = { id: uuidv4(), title: draft.title.trim(), date: draft.date, endDate: end, projectId: draft.projectId, notes: draft.notes, labels: normLabels };
+      const ms: Milestone = { id: uuidv4(), title: draft.title.trim(), date: draft.date, endDate: end, projectId: draft.projectId, notes: draft.notes, labels: normLabels, dependencies: deps, recurrence: draft.recurrence, ...timing, ...tracking };
       setMilestones((m) => [...m, ms]);
     }
     setModalOpen(false);
   };
 
+  // Milestones whose notes link to the one being edited
+  const linkedFrom = useMemo(() => {
+    const current = modalOpen && editingId ? milestones.find((m) => m.id === editingId) : undefined;
+    return current ? backlinks(current, milestones) : [];
+  }, [modalOpen, editingId, milestones]);
+
+  // Status and progress as they will be saved, with the checklist applied when it drives them
+  const draftTracking = deriveFromChecklist({ status: draft.status, progress: draft.status === "done" ? 100 : draft.progress, checklist: draft.checklist, progressFromChecklist: draft.progressFromChecklist });
+  const checklistDriven = draft.progressFromChecklist && draft.checklist.length > 0;
+
   const deleteFromModal = () => {
-    if (editingId) setMilestones((ms) => ms.filter((m) => m.id !== editingId));
+    const current = milestones.find((m) => m.id === editingId);
+    if (current && editingOccurrence && current.recurrence) {
+      const rest = removeOccurrences(current, editingOccurrence, occurrenceScope);
+      if (!rest) moveToTrash(null, [current]);
+      setMilestones((ms) => pruneDependencies(rest ? ms.map((m) => (m.id === current.id ? rest : m)) : ms.filter((m) => m.id !== current.id)));
+    } else if (current) {
+      moveToTrash(null, [current]);
+      setMilestones((ms) => pruneDependencies(ms.filter((m) => m.id !== current.id)));
+    }
     setModalOpen(false);
   };
 
+  // Milestones the draft may depend on: not itself, not already listed, and no cycles
+  const dependencyCandidates = (current: string) =>
+    milestones.filter(
+      (m) =>
+        m.id !== editingId &&
+        (m.id === current || !draft.dependencies.some((d) => d.predecessorId === m.id)) &&
+        (!editingId || !wouldCreateCycle(milestones, editingId, m.id))
+    );
+
+  const updateDraftDependency = (i: number, patch: Partial<Dependency>) =>
+    setDraft({ ...draft, dependencies: draft.dependencies.map((d, j) => (j === i ? { ...d, ...patch } : d)) });
+
   // Drag & Drop support on calendar cells
-  const onDragStartMilestone = (e: React.DragEvent, id: string) => {
+  const onDragStartMilestone = (e: React.DragEvent, id: string, occurrenceDate?: string) => {
     e.dataTransfer.setData("text/milestone-id", id);
+    if (occurrenceDate) e.dataTransfer.setData("text/occurrence-date", occurrenceDate);
+  };
+
+  // Shared by drag and drop and the keyboard move. "confirm" means a dialog took over
+  // (series scope or cascade preview).
+  const moveToDay = (id: string, occurrenceDate: string, day: Date): "moved" | "confirm" | "unchanged" => {
+    const m = milestones.find((x) => x.id === id);
+    if (!m) return "unchanged";
+    // Days are dropped as the viewer sees them; a timed milestone keeps its offset to its written date
+    const delta = differenceInCalendarDays(day, parseISO(viewerDays({ ...m, date: occurrenceDate || m.date, endDate: null }).date));
+    if (!delta) return "unchanged";
+    if (m.recurrence && occurrenceDate) {
+      // Moving an occurrence asks which part of the series moves
+      setRecurringMove({ series: m, occurrenceDate, newStart: format(addDays(parseISO(occurrenceDate), delta), "yyyy-MM-dd") });
+      return "confirm";
+    }
+    const next = { ...m, ...shiftedRange(m, addDays(parseISO(m.date), delta), m.projectId, delta < 0 ? -1 : 1) };
+    if (next.date === m.date && next.endDate === safeEnd(m.date, m.endDate)) return "unchanged";
+    return requestReschedule(next) ? "moved" : "confirm";
   };
 
   const onDropOnDay = (e: React.DragEvent, day: Date) => {
     e.preventDefault();
     const id = e.dataTransfer.getData("text/milestone-id");
-    if (!id) return;
-    const newStart = format(day, "yyyy-MM-dd");
-    setMilestones((ms) =>
-      ms.map((m) => {
-        if (m.id !== id) return m;
-        const dur = durationDays(m.date, m.endDate);
-        const newEnd = format(addDays(parseISO(newStart), Math.max(0, dur - 1)), "yyyy-MM-dd");
-        return { ...m, date: newStart, endDate: newEnd };
-      })
-    );
+    if (id) moveToDay(id, e.dataTransfer.getData("text/occurrence-date"), day);
   };
 
-  const daysInMonth = useMemo(() => {
-    const start = startOfMonth(viewDate);
-    const end = endOfMonth(viewDate);
-    return Math.round((+end - +start) / (1000 * 60 * 60 * 24)) + 1;
+  // -----------------------------
+  // Month grid keyboard: roving focus between days, and moving a milestone without a mouse
+  // -----------------------------
+
+  const announce = (message: string) => setAnnouncement(message);
+
+  // Focus follows the shown month when it changes some other way (toolbar, Today, a link)
+  useEffect(() => {
+    setFocusDay((d) => (isSameMonth(parseISO(d), viewDate) ? d : format(isSameMonth(viewDate, new Date()) ? new Date() : startOfMonth(viewDate), "yyyy-MM-dd")));
   }, [viewDate]);
 
+  useEffect(() => {
+    if (focusRequest) gridRef.current?.querySelector<HTMLElement>(`[data-day="${focusDay}"]`)?.focus();
+  }, [focusRequest]);
+
+  useEffect(() => setMoving(null), [mode]);
+
+  const focusOnDay = (day: Date) => {
+    if (!isSameMonth(day, viewDate)) setViewDate(day);
+    setFocusDay(format(day, "yyyy-MM-dd"));
+    setFocusRequest((n) => n + 1);
+  };
+
+  const startKeyboardMove = (m: MilestoneInstance, chip: HTMLElement) => {
+    setMoving({ id: m.id, occurrenceDate: m.occurrenceDate || "", title: m.title });
+    const day = chip.closest<HTMLElement>("[data-day]")?.dataset.day;
+    if (day) focusOnDay(parseISO(day));
+    announce(`Moving “${m.title}”. Use the arrow keys to pick a day, Enter to drop it there, Escape to cancel.`);
+  };
+
+  const cancelKeyboardMove = () => {
+    if (!moving) return;
+    setMoving(null);
+    setFocusRequest((n) => n + 1);
+    announce(`Move of “${moving.title}” cancelled.`);
+  };
+
+  const dropKeyboardMove = (day: Date) => {
+    if (!moving) return;
+    const result = moveToDay(moving.id, moving.occurrenceDate, day);
+    const when = format(day, "EEEE, MMMM d");
+    setMoving(null);
+    if (result === "moved") announce(`Moved “${moving.title}” to ${when}.`);
+    else if (result === "confirm") announce(`Confirm moving “${moving.title}” to ${when}.`);
+    else announce(`“${moving.title}” is already on ${when}.`);
+  };
+
+  const onGridKeyDown = (e: React.KeyboardEvent, day: Date) => {
+    if (e.target !== e.currentTarget || e.altKey) return; // chips handle their own keys
+    const target = gridKeyTarget(e, day);
+    if (target) {
+      e.preventDefault();
+      focusOnDay(target);
+    } else if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      if (moving) dropKeyboardMove(day);
+      else openCreateForDay(day);
+    } else if (e.key === "Escape" && moving) {
+      e.preventDefault();
+      cancelKeyboardMove();
+    }
+  };
+
+  const applyRecurringMove = (scope: RecurrenceScope) => {
+    if (!recurringMove) return;
+    const { series, occurrenceDate, newStart } = recurringMove;
+    const edited: Milestone = { ...series, ...shiftedRange(series, parseISO(newStart), series.projectId, newStart < occurrenceDate ? -1 : 1) };
+    const next = splitSeries(series, occurrenceDate, scope, edited, uuidv4);
+    if (next.length === 1) requestReschedule(next[0]);
+    else setMilestones((ms) => ms.flatMap((m) => (m.id === series.id ? next : [m])));
+    setRecurringMove(null);
+  };
+
+  // Timeline bars: a move/resize of a one-off milestone goes through the cascade check like any
+  // other reschedule; occurrences of a series only move, via the recurring scope dialog
+  const commitBarEdit = (m: MilestoneInstance, kind: BarEdit, delta: number, projectId: string) => {
+    const series = milestones.find((x) => x.id === m.id);
+    if (!series) return;
+    if (m.occurrenceDate && series.recurrence) {
+      if (kind === "move" && delta) setRecurringMove({ series, occurrenceDate: m.occurrenceDate, newStart: format(addDays(parseISO(m.occurrenceDate), delta), "yyyy-MM-dd") });
+      return;
+    }
+    const next: Milestone = { ...series, ...barRange(series, kind, delta, projectId), projectId };
+    if (next.date === series.date && next.endDate === safeEnd(series.date, series.endDate) && projectId === series.projectId) return;
+    requestReschedule(next);
+  };
+
+  const onBarPointerDown = (e: React.PointerEvent<HTMLDivElement>, key: string, projectId: string) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const kind = ((e.target as HTMLElement).dataset.handle as BarEdit | undefined) || "move";
+    setBarDrag({ key, kind, originX: e.clientX, delta: 0, fromProjectId: projectId, projectId, moved: false });
+  };
+
+  const onBarPointerMove = (e: React.PointerEvent, recurring: boolean) => {
+    if (!barDrag) return;
+    const delta = Math.round((e.clientX - barDrag.originX) / dayWidth);
+    // Only whole-bar moves of one-off milestones can change rows
+    const row = barDrag.kind === "move" && !recurring ? document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>("[data-project-row]") : null;
+    const projectId = row?.dataset.projectRow || barDrag.projectId;
+    const moved = barDrag.moved || Math.abs(e.clientX - barDrag.originX) > 3 || projectId !== barDrag.fromProjectId;
+    if (delta !== barDrag.delta || projectId !== barDrag.projectId || moved !== barDrag.moved) setBarDrag({ ...barDrag, delta, projectId, moved });
+  };
+
+  const onBarPointerUp = (m: MilestoneInstance) => {
+    if (!barDrag) return;
+    const { kind, delta, projectId, moved } = barDrag;
+    setBarDrag(null);
+    // A press without movement is a click
+    if (!moved) openEditMilestone(m);
+    else commitBarEdit(m, kind, delta, projectId);
+  };
+
+  // Keyboard equivalents: ←/→ move a day, Shift resizes the end, Alt resizes the start, ↑/↓ change project
+  const onBarKeyDown = (e: React.KeyboardEvent, m: MilestoneInstance, key: string) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      openEditMilestone(m);
+    } else if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      e.preventDefault();
+      commitBarEdit(m, e.shiftKey ? "end" : e.altKey ? "start" : "move", e.key === "ArrowLeft" ? -1 : 1, m.projectId);
+    } else if ((e.key === "ArrowUp" || e.key === "ArrowDown") && !m.occurrenceDate) {
+      e.preventDefault();
+      const rows = timelineRows.map((r) => r.project.id);
+      const target = rows[rows.indexOf(m.projectId) + (e.key === "ArrowUp" ? -1 : 1)];
+      if (!target) return;
+      commitBarEdit(m, "move", 0, target);
+      // The bar re-mounts in its new row; keep keyboard focus on it
+      requestAnimationFrame(() => timelineRef.current?.querySelector<HTMLElement>(`[data-bar-key="${key}"]`)?.focus());
+    }
+  };
+
+  // Rendered span: the zoom's current period plus one period either side
+  const tlWindow = useMemo(() => timelineWindow(viewDate, timelineZoom), [viewDate, timelineZoom]);
+  const tlScale = useMemo(() => timelineScale(tlWindow.start, tlWindow.end, timelineZoom), [tlWindow, timelineZoom]);
+  const dayWidth = ZOOM_DAY_WIDTH[timelineZoom];
+
   const timelineRows = useMemo(() => {
-    const start = startOfMonth(viewDate);
-    const end = endOfMonth(viewDate);
-    return projects.map((p) => {
-      const items = applyFilters(milestones)
+    const { start, end, days } = tlWindow;
+    const visible = applyFilters(expandInRange(milestones, addDays(start, -1), addDays(end, 1)));
+    // Rows of folded groups' descendants are left out
+    const shownNodes = projectNodes.filter((n) => !n.ancestors.some((id) => collapsedGroups.includes(id)));
+    return shownNodes.map(({ project: p, depth, childCount }) => {
+      const items = visible
         .filter((m) => m.projectId === p.id)
         .filter((m) => {
-          // Show if range intersects with month
-          const s = parseISO(m.date);
-          const e = parseISO(safeEnd(m.date, m.endDate));
-          return e >= start && s <= end;
+          // Show if range intersects with the window
+          const shown = viewerDays(m);
+          return parseISO(shown.endDate) >= start && parseISO(shown.date) <= end;
         })
         .map((m) => {
-          const s = parseISO(m.date);
-          const e = parseISO(safeEnd(m.date, m.endDate));
-          const monthStart = startOfMonth(viewDate);
-          const startIndex = Math.max(0, Math.floor((+s - +monthStart) / (1000 * 60 * 60 * 24)));
-          const endIndex = Math.min(daysInMonth - 1, Math.floor((+e - +monthStart) / (1000 * 60 * 60 * 24)));
-          return { id: m.id, title: m.title, notes: m.notes || "", startIndex, endIndex };
+          const shown = viewerDays(m);
+          const s = differenceInCalendarDays(parseISO(shown.date), start);
+          const e = differenceInCalendarDays(parseISO(shown.endDate), start);
+          const info = schedule.get(m.id);
+          return {
+            id: m.id,
+            key: m.occurrenceDate ? `${m.id}@${m.occurrenceDate}` : m.id,
+            milestone: m,
+            recurring: !!m.occurrenceDate,
+            title: m.title,
+            notes: m.notes || "",
+            dates: `${shown.date === shown.endDate ? shown.date : `${shown.date} → ${shown.endDate}`}${isTimed(m) ? ` ${formatTimes(m)} (${describeOriginalTime(m)})` : ""}`,
+            startIndex: Math.max(0, s),
+            endIndex: Math.min(days - 1, e),
+            continuesBefore: s < 0,
+            continuesAfter: e > days - 1,
+            critical: !!info?.critical,
+            slack: describeSlack(info),
+            status: statusOf(m),
+            progress: progressOf(m),
+            overdue: isOverdue(m, todayISO),
+          };
         });
-      return { project: p, items };
+      // Non-working days of the project's calendar, shaded where days are wide enough to see
+      const cal = calendarFor(p, settings);
+      const offDays: { index: number; holiday?: string }[] = [];
+      if (ZOOM_DAY_WIDTH[timelineZoom] >= 9) {
+        for (let i = 0; i < days; i++) {
+          const day = addDays(start, i);
+          if (!isWorkingDay(cal, day)) offDays.push({ index: i, holiday: holidayName(cal, format(day, "yyyy-MM-dd")) });
+        }
+      }
+      // Baseline dates behind the current bars
+      const ghosts =
+        compareBaseline?.projectId === p.id
+          ? compareBaseline.milestones
+              .map((b) => ({ ...b, s: differenceInCalendarDays(parseISO(b.date), start), e: differenceInCalendarDays(parseISO(b.endDate), start) }))
+              .filter((b) => b.e >= 0 && b.s <= days - 1)
+              .map((b) => ({ id: b.id, title: b.title, dates: b.date === b.endDate ? b.date : `${b.date} → ${b.endDate}`, startIndex: Math.max(0, b.s), endIndex: Math.min(days - 1, b.e) }))
+          : [];
+      // Groups get a summary bar from the earliest to the latest milestone in the whole group
+      let summary: { startIndex: number; endIndex: number; continuesBefore: boolean; continuesAfter: boolean; dates: string } | null = null;
+      if (childCount) {
+        const group = new Set(projectNodes.filter((n) => n.project.id === p.id || n.ancestors.includes(p.id)).map((n) => n.project.id));
+        const spans = visible.filter((m) => group.has(m.projectId)).map((m) => viewerDays(m));
+        if (spans.length) {
+          const first = spans.reduce((a, b) => (b.date < a ? b.date : a), spans[0].date);
+          const last = spans.reduce((a, b) => (b.endDate > a ? b.endDate : a), spans[0].endDate);
+          const s = differenceInCalendarDays(parseISO(first), start);
+          const e = differenceInCalendarDays(parseISO(last), start);
+          if (e >= 0 && s <= days - 1) summary = { startIndex: Math.max(0, s), endIndex: Math.min(days - 1, e), continuesBefore: s < 0, continuesAfter: e > days - 1, dates: first === last ? first : `${first} → ${last}` };
+        }
+      }
+      return { project: p, depth, childCount, summary, items, offDays, ghosts };
     });
-  }, [projects, milestones, viewDate, daysInMonth, filterProjectId, filterLabels]);
+  }, [projectNodes, collapsedGroups, milestones, schedule, tlWindow, timelineZoom, settings, compareBaseline, filterScope, filterLabels, parsedQuery, projectsMap]);
+
+  // Keep the anchor period in view; when it moves, glide over from where the previous one sits
+  useLayoutEffect(() => {
+    const el = timelineScrollRef.current;
+    if (mode !== "timeline" || !el) {
+      timelineFocusRef.current = null;
+      return;
+    }
+    const prev = timelineFocusRef.current;
+    const focusDay = addDays(tlWindow.start, tlWindow.focusIndex);
+    timelineFocusRef.current = focusDay;
+    const target = tlWindow.focusIndex * dayWidth;
+    if (!prev || +prev === +focusDay) {
+      el.scrollLeft = target;
+      return;
+    }
+    const from = differenceInCalendarDays(prev, tlWindow.start) * dayWidth;
+    if (from >= 0 && from <= tlWindow.days * dayWidth) el.scrollLeft = from;
+    el.scrollTo({ left: target, behavior: "smooth" });
+  }, [mode, tlWindow, dayWidth]);
+
+  // Arrow from the predecessor's finish (FS) or start (SS) to the dependent's start
+  useLayoutEffect(() => {
+    if (mode !== "timeline") return;
+    const measure = () => {
+      const root = timelineRef.current;
+      if (!root) return;
+      const base = root.getBoundingClientRect();
+      const arrows: { key: string; d: string }[] = [];
+      for (const m of milestones) {
+        for (const dep of m.dependencies || []) {
+          const from = barRefs.current.get(dep.predecessorId);
+          const to = barRefs.current.get(m.id);
+          if (!from || !to) continue;
+          const a = from.getBoundingClientRect();
+          const b = to.getBoundingClientRect();
+          const x1 = (dep.type === "FS" ? a.right : a.left) - base.left;
+          const y1 = a.top + a.height / 2 - base.top;
+          const x2 = b.left - base.left;
+          const y2 = b.top + b.height / 2 - base.top;
+          const bend = Math.max(16, Math.abs(x2 - x1) / 2);
+          arrows.push({ key: `${dep.predecessorId}->${m.id}`, d: `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}` });
+        }
+      }
+      setDepArrows(arrows);
+    };
+    measure();
+    window.addEventListener("resize", measure);
+    return () => window.removeEventListener("resize", measure);
+  }, [mode, timelineRows, milestones, dayWidth, barDrag]);
+
+  // Milestone chip shared by the month and week grids. The month grid keeps chips outside the
+  // focused day out of the tab order.
+  const renderChip = (m: MilestoneInstance, wrap = false, tabIndex = 0) => {
+    const dur = durationDays(m.date, m.endDate) > 1 ? ` (${formatDuration(m)})` : "";
+    const time = formatTimes(m);
+    const status = statusOf(m);
+    const overdue = isOverdue(m, todayISO);
+    const checks = describeChecklist(m);
+    const tracking = `${STATUS_LABELS[status]}${status === "in_progress" || status === "at_risk" ? ` ${progressOf(m)}%` : ""}${checks ? ` · ${checks} checked` : ""}${overdue ? " · overdue" : ""}`;
+    const info = schedule.get(m.id);
+    const beingMoved = moving?.id === m.id && moving.occurrenceDate === (m.occurrenceDate || "");
+    const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (e.key === "Enter" || e.key === " ") openEditMilestone(m);
+      else if (e.key.toLowerCase() === "m" && mode === "calendar" && !e.ctrlKey && !e.metaKey && !e.altKey) startKeyboardMove(m, e.currentTarget);
+      else if (e.key === "Escape") (e.currentTarget.closest("[data-day]") as HTMLElement | null)?.focus();
+      else return;
+      e.preventDefault();
+      e.stopPropagation();
+    };
+    return (
+      <div key={m.occurrenceDate ? `${m.id}@${m.occurrenceDate}` : m.id} role="button" tabIndex={tabIndex} aria-label={`${m.title}${dur}, ${projectsMap[m.projectId]?.name}, ${tracking}${time ? `, ${time}` : ""}`} className={`flex items-center gap-1 rounded-lg px-1 py-0.5 text-[11px] outline-none focus-visible:ring-2 focus-visible:ring-sky-500 ${wrap ? "" : "truncate"} ${info?.critical ? "ring-1 ring-red-500" : ""} ${beingMoved ? "opacity-50 outline-dashed outline-1 outline-sky-500" : ""}`} style={{ backgroundColor: `${projectsMap[m.projectId]?.color}22`, borderLeft: `3px solid ${projectsMap[m.projectId]?.color}` }} title={`${projectsMap[m.projectId]?.name} · ${m.title}${dur}${time ? ` · ${time} (${describeOriginalTime(m)})` : ""} · ${tracking}${info ? ` · ${describeSlack(info)}` : ""}${mode === "calendar" ? " · M to move with the keyboard" : ""}`} draggable onDragStart={(e) => onDragStartMilestone(e, m.id, m.occurrenceDate)} onClick={(e) => { e.stopPropagation(); openEditMilestone(m); }} onKeyDown={onKeyDown}>
+        <span className="h-2 w-2 flex-shrink-0 rounded-full" style={{ backgroundColor: projectsMap[m.projectId]?.color }} />
+        {m.occurrenceDate && <Repeat className="h-2.5 w-2.5 flex-shrink-0 text-slate-500" />}
+        {time && <span className="flex-shrink-0 font-medium tabular-nums">{time.split("–")[0]}</span>}
+        {status === "done" && <CheckCircle2 className="h-2.5 w-2.5 flex-shrink-0 text-emerald-600" />}
+        {overdue && <AlertTriangle className="h-2.5 w-2.5 flex-shrink-0 text-red-600" aria-label="Overdue" />}
+        <span className={`${wrap ? "break-words" : "truncate"} ${STATUS_CHIP[status]} ${overdue ? "text-red-700" : ""}`}>{m.title}{dur}</span>
+        {checks && <span className="ml-auto flex-shrink-0 tabular-nums text-slate-500">{checks}</span>}
+      </div>
+    );
+  };
+
+  if (!loaded) {
+    return <div className="flex min-h-screen items-center justify-center bg-slate-50 text-sm text-slate-500">Loading your calendar…</div>;
+  }
 
   return (
     <div className="min-h-screen w-full bg-gradient-to-b from-slate-50 to-slate-100 p-4 md:p-8">
@@ -448,15 +2399,41 @@ export default function ProjectCalendarApp() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all" label="All projects">All projects</SelectItem>
-                  {projects.map((p) => (
-                    <SelectItem key={p.id} value={p.id} label={p.name} dotColor={p.color}>
-                      {p.name}
+                  {projectNodes.map(({ project: p, depth, childCount }) => (
+                    <SelectItem key={p.id} value={p.id} label={childCount ? `${p.name} (all)` : p.name} dotColor={p.color}>
+                      <span style={{ paddingLeft: depth * 12 }}>
+                        {p.name}
+                        {childCount > 0 && <span className="text-xs text-slate-500"> · with {childCount} sub-project{childCount === 1 ? "" : "s"}</span>}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={activeSavedView?.id || ""} onValueChange={openSavedView} placeholder="Saved views">
+                <SelectTrigger className="min-w-[150px]">
+                  <SelectValue placeholder="Saved views" />
+                </SelectTrigger>
+                <SelectContent>
+                  {savedViews.map((v) => (
+                    <SelectItem key={v.id} value={v.id} label={v.name}>
+                      {v.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
-              <div className="text-xs text-slate-500">Filter by labels</div>
+              <Button variant="secondary" className="rounded-2xl px-2" onClick={() => setShowSavedViews(true)} aria-label="Save or manage views" title="Save or manage views">
+                <Bookmark className="h-4 w-4" />
+              </Button>
+              <div className="ml-auto flex gap-1">
+                <Button variant="secondary" className="rounded-2xl px-2" onClick={undo} disabled={!history.past.length} aria-label="Undo" title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : "Nothing to undo"}>
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button variant="secondary" className="rounded-2xl px-2" onClick={redo} disabled={!history.future.length} aria-label="Redo" title={history.future.length ? `Redo ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)` : "Nothing to redo"}>
+                  <Redo2 className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
+            <QueryInput value={filterQuery} onChange={setFilterQuery} error={parsedQuery.error} projectNames={projectNames} labels={allLabels} />
             <div className="flex flex-wrap gap-1">
               {allLabels.length === 0 && <span className="text-xs text-slate-400">No labels yet — add some to milestones.</span>}
               {allLabels.map((t) => {
@@ -479,6 +2456,35 @@ export default function ProjectCalendarApp() {
           </div>
         </div>
 
+        {/* Announcements for screen readers (keyboard moves) */}
+        <div aria-live="polite" className="sr-only">
+          {announcement}
+        </div>
+
+        {storageError && (
+          <div role="alert" className="mb-6 flex flex-wrap items-center gap-3 rounded-2xl border border-red-300 bg-red-50 px-4 py-3 text-sm text-red-900">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span className="flex-1">{storageError}</span>
+            <Button variant="secondary" className="rounded-2xl" onClick={downloadBackup}>
+              <Download className="h-4 w-4" /> Backup
+            </Button>
+            <Button variant="ghost" className="rounded-2xl" onClick={() => setStorageError("")}>Dismiss</Button>
+          </div>
+        )}
+
+        {quarantine.length > 0 && (
+          <div className="mb-6 flex flex-wrap items-center gap-3 rounded-2xl border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span className="flex-1">
+              {quarantine.length} malformed record{quarantine.length === 1 ? " was" : "s were"} set aside instead of loaded ({Array.from(new Set(quarantine.map((q) => q.reason))).slice(0, 3).join("; ")}).
+            </span>
+            <Button variant="secondary" className="rounded-2xl" onClick={downloadQuarantine}>
+              <Download className="h-4 w-4" /> Download
+            </Button>
+            <Button variant="ghost" className="rounded-2xl" onClick={() => setQuarantine([])}>Discard</Button>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
           {/* Left column: Forms */}
           <div className="space-y-6 lg:col-span-1">
@@ -499,6 +2505,24 @@ export default function ProjectCalendarApp() {
                     ))}
                   </div>
                 </div>
+                {activeProjects.length > 0 && (
+                  <div>
+                    <FormLabel label="Part of" />
+                    <Select value={newProject.parentId} onValueChange={(v) => setNewProject({ ...newProject, parentId: v })}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Top level" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="" label="— top level —">— top level —</SelectItem>
+                        {activeProjects.map((p) => (
+                          <SelectItem value={p.id} key={p.id} label={p.name} dotColor={p.color}>
+                            {p.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <Button className="w-full rounded-2xl" onClick={addProject}>
                   <Plus className="mr-2 h-4 w-4" /> Add project
                 </Button>
@@ -547,7 +2571,7 @@ export default function ProjectCalendarApp() {
                         <SelectValue placeholder="Select project" />
                       </SelectTrigger>
                       <SelectContent>
-                        {projects.map((p) => (
+                        {activeProjects.map((p) => (
                           <SelectItem value={p.id} key={p.id} label={p.name} dotColor={p.color}>
                             {p.name}
                           </SelectItem>
@@ -562,147 +2586,646 @@ export default function ProjectCalendarApp() {
                 </div>
                 <div>
                   <FormLabel label="Notes" />
-                  <textarea value={newMilestone.notes} onChange={(e) => setNewMilestone({ ...newMilestone, notes: e.target.value })} rows={3} className="mt-1 w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-400" placeholder="Any context or checklist details…" />
+                  <textarea value={newMilestone.notes} onChange={(e) => setNewMilestone({ ...newMilestone, notes: e.target.value })} rows={3} className="mt-1 w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-400" placeholder="Any context or links…" />
                 </div>
-                <Button className="w-full rounded-2xl" onClick={addMilestone} disabled={!projects.length}>
+                <Button className="w-full rounded-2xl" onClick={addMilestone} disabled={!activeProjects.length}>
                   <Flag className="mr-2 h-4 w-4" /> Add milestone
                 </Button>
-                {!projects.length && <p className="text-xs text-slate-500">Add a project first.</p>}
+                {!activeProjects.length && <p className="text-xs text-slate-500">Add a project first.</p>}
               </CardContent>
             </Card>
 
             <Card className="shadow-sm">
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle className="text-base">Projects</CardTitle>
+                <Button
+                  variant="ghost"
+                  className="rounded-2xl text-xs"
+                  onClick={() => {
+                    setConfirmEmptyTrash(false);
+                    setShowTrash(true);
+                  }}
+                >
+                  <Trash2 className="mr-1 h-4 w-4" /> Trash{trash.length ? ` (${trash.length})` : ""}
+                </Button>
               </CardHeader>
               <CardContent className="space-y-3">
                 <AnimatePresence>
-                  {projects.length === 0 && <p className="text-sm text-slate-500">No projects yet.</p>}
-                  {projects.map((p) => (
-                    <motion.div key={p.id} layout initial={{ opacity: 0, y: 6 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -6 }} className="flex items-center justify-between rounded-xl border bg-white p-3 shadow-sm">
-                      <div className="flex items-center gap-3">
-                        <span className="h-4 w-4 rounded-full" style={{ backgroundColor: p.color }} />
-                        <span className="text-sm font-medium">{p.name}</span>
+                  {activeProjects.length === 0 && <p className="text-sm text-slate-500">No projects yet.</p>}
+                  {projectNodes.map(({ project: p, depth }) => (
+                    <motion.div key={p.id} layout initial={{ opacity: 0, y: 6 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -6 }} className="flex items-center justify-between gap-2 rounded-xl border bg-white p-3 shadow-sm" style={{ marginLeft: depth * 16 }}>
+                      <div className="flex min-w-0 items-center gap-3" title={p.description || undefined}>
+                        <span className="h-4 w-4 flex-shrink-0 rounded-full" style={{ backgroundColor: p.color }} />
+                        <div className="min-w-0">
+                          <div className="truncate text-sm font-medium">{p.name}</div>
+                          <div className="truncate text-xs text-slate-500">
+                            {p.owner && `${p.owner} · `}
+                            {rollUps.get(p.id)?.milestones ?? 0} milestone{rollUps.get(p.id)?.milestones === 1 ? "" : "s"}
+                            {rollUps.get(p.id)?.overdue ? <span className="text-red-600"> · {rollUps.get(p.id)!.overdue} overdue</span> : null}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openEditProject(p)} title="Edit project">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => exportICS(p.id)} title="Export project as .ics">
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setArchived(p.id, true)} title="Archive project">
+                          <Archive className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setDeletingProjectId(p.id)} title="Delete project">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
                       </div>
-                      <Button variant="ghost" size="icon" onClick={() => deleteProject(p.id)}>
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
                     </motion.div>
                   ))}
                 </AnimatePresence>
+                {projects.length > activeProjects.length && (
+                  <div className="border-t pt-3">
+                    <button className="text-xs font-medium text-slate-600 hover:text-slate-900" onClick={() => setShowArchived((v) => !v)}>
+                      {showArchived ? "Hide" : "Show"} archived ({projects.length - activeProjects.length})
+                    </button>
+                    {showArchived && (
+                      <ul className="mt-2 space-y-1">
+                        {projects
+                          .filter((p) => p.archived)
+                          .map((p) => (
+                            <li key={p.id} className="flex items-center justify-between gap-2 text-sm text-slate-500">
+                              <span className="flex min-w-0 items-center gap-2">
+                                <span className="h-3 w-3 flex-shrink-0 rounded-full opacity-60" style={{ backgroundColor: p.color }} />
+                                <span className="truncate">{p.name}</span>
+                              </span>
+                              <span className="flex items-center gap-1">
+                                <Button variant="ghost" size="icon" onClick={() => setArchived(p.id, false)} title="Unarchive">
+                                  <ArchiveRestore className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" onClick={() => setDeletingProjectId(p.id)} title="Delete project">
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </span>
+                            </li>
+                          ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
-          </div>
 
-          {/* Right column: Calendar or Timeline */}
-          <div className="lg:col-span-2">
             <Card className="shadow-sm">
-              <CardHeader className="flex flex-row items-center justify-between">
-                <CardTitle className="text-base flex items-center gap-2">
-                  <button className="rounded-xl p-1 hover:bg-slate-100" onClick={() => setViewDate((d) => subMonths(d, 1))} aria-label="Prev month">
-                    <ChevronLeft className="h-5 w-5" />
-                  </button>
-                  <span>{monthLabel}</span>
-                  <button className="rounded-xl p-1 hover:bg-slate-100" onClick={() => setViewDate((d) => addMonths(d, 1))} aria-label="Next month">
-                    <ChevronRight className="h-5 w-5" />
-                  </button>
-                </CardTitle>
-                <div className="flex items-center gap-2">
-                  <Button variant={mode === "calendar" ? "default" : "secondary"} onClick={() => setMode("calendar")} className="rounded-2xl">
-                    <CalendarIcon className="mr-2 h-4 w-4" /> Calendar
-                  </Button>
-                  <Button variant={mode === "timeline" ? "default" : "secondary"} onClick={() => setMode("timeline")} className="rounded-2xl">
-                    <BarChart3 className="mr-2 h-4 w-4" /> Timeline
+              <CardHeader>
+                <CardTitle className="text-base">Working Calendars</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <FormLabel label="Calendar" />
+                    <Select value={editedCalendar.id} onValueChange={setCalendarEditId}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Calendar" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {workCalendars.map((c) => (
+                          <SelectItem key={c.id} value={c.id} label={c.name} />
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={addCalendar} title="New calendar">
+                    <Plus className="h-4 w-4" />
                   </Button>
-                  <Button variant="secondary" className="rounded-2xl" onClick={() => setViewDate(new Date())}>Today</Button>
+                  {editedCalendar.id !== STANDARD_CALENDAR.id && (
+                    <Button variant="ghost" size="icon" onClick={() => deleteCalendar(editedCalendar.id)} title="Delete calendar">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
-              </CardHeader>
-
-              <CardContent>
-                {mode === "calendar" ? (
-                  <div>
-                    {/* Weekday headers */}
-                    <div className="grid grid-cols-7 gap-1 rounded-2xl bg-slate-50 p-2 text-xs font-medium text-slate-600">
-                      {"Sun,Mon,Tue,Wed,Thu,Fri,Sat".split(",").map((d) => (
-                        <div className="px-2 py-1 text-center" key={d}>
-                          {d}
-                        </div>
+                <div>
+                  <FormLabel label="Name" htmlFor="calendar-name" />
+                  <Input id="calendar-name" value={editedCalendar.name} onChange={(e) => updateCalendar(editedCalendar.id, { name: e.target.value })} />
+                </div>
+                <div>
+                  <FormLabel label="Working days" />
+                  <div className="mt-1 flex gap-1">
+                    {WEEKDAY_NAMES.map((name, d) => {
+                      const on = editedCalendar.workingWeekdays.includes(d);
+                      return (
+                        <button key={name} type="button" aria-pressed={on} title={name} onClick={() => toggleWeekday(editedCalendar, d)} className={`h-8 w-8 rounded-full border text-xs font-medium ${on ? "border-slate-900 bg-slate-900 text-white" : "bg-white text-slate-500"}`}>
+                          {name[0]}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div>
+                  <FormLabel label={`Holidays (${editedCalendar.holidays.length})`} />
+                  {editedCalendar.holidays.length > 0 && (
+                    <ul className="mt-1 max-h-40 space-y-1 overflow-y-auto">
+                      {editedCalendar.holidays.map((h) => (
+                        <li key={h.date} className="flex items-center justify-between gap-2 rounded-lg border bg-white px-2 py-1 text-xs">
+                          <span className="truncate">
+                            <span className="text-slate-500">{h.date}</span> {h.name}
+                          </span>
+                          <button className="text-slate-400 hover:text-slate-700" title="Remove holiday" onClick={() => updateCalendar(editedCalendar.id, { holidays: editedCalendar.holidays.filter((x) => x.date !== h.date) })}>
+                            <X className="h-3 w-3" />
+                          </button>
+                        </li>
                       ))}
+                    </ul>
+                  )}
+                  <div className="flex items-end gap-2">
+                    <div className="w-36 flex-shrink-0">
+                      <Input type="date" value={holidayDraft.date} onChange={(e) => setHolidayDraft({ ...holidayDraft, date: e.target.value })} aria-label="Holiday date" />
                     </div>
-
-                    {/* Calendar grid */}
-                    <div className="mt-2 grid grid-cols-7 gap-1">
-                      {calendarDays.map((day) => {
-                        const key = format(day, "yyyy-MM-dd");
-                        const ms = milestonesByDay.get(key) || [];
-                        const muted = !isSameMonth(day, viewDate);
-                        return (
-                          <div key={key} className={`min-h-[110px] rounded-2xl border bg-white p-2 ${muted ? "opacity-60" : ""} relative cursor-pointer`} onClick={() => openCreateForDay(day)} onDragOver={(e) => e.preventDefault()} onDrop={(e) => onDropOnDay(e, day)} title={`Click to add milestone on ${format(day, "PPP")}`}>
-                            <div className="flex items-center justify-between">
-                              <div className={`text-xs ${isToday(day) ? "font-semibold" : ""}`}>{format(day, "d")}</div>
-                              {isToday(day) && <span className="text-[10px] rounded-full bg-slate-900 px-2 py-0.5 font-medium text-white">Today</span>}
-                            </div>
-                            <div className="mt-1 space-y-1">
-                              {ms.slice(0, 3).map((m) => {
-                                const dur = durationDays(m.date, m.endDate);
-                                return (
-                                  <div key={m.id} className="flex items-center gap-1 truncate rounded-lg px-1 py-0.5 text-[11px]" style={{ backgroundColor: `${projectsMap[m.projectId]?.color}22`, borderLeft: `3px solid ${projectsMap[m.projectId]?.color}` }} title={`${projectsMap[m.projectId]?.name} · ${m.title}${dur > 1 ? ` (${dur}d)` : ""}`} draggable onDragStart={(e) => onDragStartMilestone(e, m.id)} onClick={(e) => { e.stopPropagation(); openEditMilestone(m); }}>
-                                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: projectsMap[m.projectId]?.color }} />
-                                    <span className="truncate">{m.title}{dur > 1 ? ` (${dur}d)` : ""}</span>
-                                  </div>
-                                );
-                              })}
-                              {ms.length > 3 && <div className="text-[10px] text-slate-500">+{ms.length - 3} more</div>}
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
+                    <Input value={holidayDraft.name} onChange={(e) => setHolidayDraft({ ...holidayDraft, name: e.target.value })} onKeyDown={(e) => e.key === "Enter" && addHoliday()} placeholder="Name" aria-label="Holiday name" />
+                    <Button variant="ghost" size="icon" onClick={addHoliday} disabled={!holidayDraft.date} title="Add holiday">
+                      <Plus className="h-4 w-4" />
+                    </Button>
                   </div>
-                ) : (
-                  // Timeline View
-                  <div className="space-y-4">
-                    <div className="mb-2 flex items-center justify-between text-xs text-slate-600">
-                      <span>Days in {monthLabel}</span>
-                      <span>{daysInMonth}</span>
-                    </div>
-                    <div className="space-y-3">
-                      {timelineRows.map(({ project, items }) => (
-                        <div key={project.id} className="rounded-2xl border bg-white p-3">
-                          <div className="mb-2 flex items-center gap-2">
-                            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: project.color }} />
-                            <span className="text-sm font-semibold">{project.name}</span>
-                          </div>
-                          <div className="relative h-12 w-full overflow-visible rounded-xl bg-slate-50">
-                            {/* base line */}
-                            <div className="absolute left-3 right-3 top-1/2 h-0.5 -translate-y-1/2 bg-slate-300" />
-                            {/* day tick marks */}
-                            <div className="absolute inset-x-3 top-1/2 -translate-y-1/2">
-                              <div className="flex h-6 items-center justify-between">
-                                {Array.from({ length: daysInMonth }).map((_, i) => (
-                                  <div key={i} className="h-2 w-px bg-slate-200" />
-                                ))}
-                              </div>
-                            </div>
-                            {/* milestone bars */}
-                            {items.map((it) => {
-                              const leftPct = (it.startIndex / (daysInMonth - 1 || 1)) * 100;
-                              const rightPct = (it.endIndex / (daysInMonth - 1 || 1)) * 100;
-                              const widthPct = Math.max(2, rightPct - leftPct + (100 / (daysInMonth - 1 || 1)) * 0.2); // ensure visible
-                              return (
-                                <div key={it.id} className="absolute top-1/2 -translate-y-1/2 left-3 right-3">
-                                  <div className="group relative" style={{ left: `calc(${leftPct}% )`, width: `calc(${widthPct}% )` }}>
-                                    <div className="h-3 rounded-full" style={{ backgroundColor: `${project.color}` }} />
-                                    <div className="pointer-events-none absolute -top-9 left-1/2 hidden -translate-x-1/2 whitespace-nowrap rounded-md bg-slate-900 px-2 py-1 text-[10px] text-white shadow-lg group-hover:block z-20">
-                                      {it.title}
-                                    </div>
-                                  </div>
+                  <Button variant="secondary" className="mt-2 w-full rounded-2xl" onClick={() => holidayInputRef.current?.click()} title="Add every day of every event in an iCalendar (.ics) file as a holiday">
+                    <Upload className="h-4 w-4" /> Import holidays .ics
+                  </Button>
+                  <input ref={holidayInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={onPickHolidayFile} />
+                  {holidayImportNote && <p className="mt-1 text-xs text-slate-500">{holidayImportNote}</p>}
+                </div>
+                <div className="border-t pt-3">
+                  <FormLabel label="Default calendar" />
+                  <Select value={calendarFor(undefined, settings).id} onValueChange={(v) => setSettings((s) => ({ ...s, defaultCalendarId: v }))}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Default calendar" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workCalendars.map((c) => (
+                        <SelectItem key={c.id} value={c.id} label={c.name} />
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {projects.map((p) => (
+                  <div key={p.id} className="flex items-center gap-2">
+                    <span className="h-3 w-3 flex-shrink-0 rounded-full" style={{ backgroundColor: p.color }} />
+                    <span className="min-w-0 flex-1 truncate text-sm">{p.name}</span>
+                    <Select value={p.calendarId || "default"} onValueChange={(v) => setProjects((ps) => ps.map((x) => (x.id === p.id ? { ...x, calendarId: v === "default" ? null : v } : x)))}>
+                      <SelectTrigger className="w-36">
+                        <SelectValue placeholder="Calendar" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default" label="Default" />
+                        {workCalendars.map((c) => (
+                          <SelectItem key={c.id} value={c.id} label={c.name} />
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={workingDurations} onChange={(e) => setSettings((s) => ({ ...s, workingDayDurations: e.target.checked }))} />
+                  Count durations in working days
+                </label>
+                <p className="text-xs text-slate-500">With working-day durations, moving a milestone keeps its number of working days and starts it on a working day.</p>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-base">Baselines</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {!baselineProject ? (
+                  <p className="text-sm text-slate-500">Add a project first.</p>
+                ) : (
+                  <>
+                    <div>
+                      <FormLabel label="Project" />
+                      <Select value={baselineProject.id} onValueChange={setBaselineProjectId}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Project" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {activeProjects.map((p) => (
+                            <SelectItem key={p.id} value={p.id} label={p.name} dotColor={p.color}>
+                              {p.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-end gap-2">
+                      <div className="flex-1">
+                        <FormLabel label="Capture current dates as" htmlFor="baseline-name" />
+                        <Input id="baseline-name" value={baselineName} onChange={(e) => setBaselineName(e.target.value)} onKeyDown={(e) => e.key === "Enter" && captureProjectBaseline()} placeholder="e.g., Committed plan" />
+                      </div>
+                      <Button className="rounded-2xl" onClick={captureProjectBaseline}>Capture</Button>
+                    </div>
+                    {baselines
+                      .filter((b) => b.projectId === baselineProject.id)
+                      .map((b) => (
+                        <div key={b.id} className="rounded-xl border bg-white p-2">
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="min-w-0">
+                              <div className="truncate text-sm font-medium">{b.name}</div>
+                              <div className="text-xs text-slate-500">
+                                {format(parseISO(b.capturedAt), "PP")} · {b.milestones.length} milestone{b.milestones.length === 1 ? "" : "s"}
+                              </div>
+                            </div>
+                            <Button variant="ghost" size="icon" onClick={() => deleteBaseline(b.id)} title="Delete baseline">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                          <div className="mt-2 flex gap-2">
+                            <Button variant={compareBaselineId === b.id ? "default" : "secondary"} className="flex-1 rounded-2xl" onClick={() => setCompareBaselineId(compareBaselineId === b.id ? "" : b.id)} title="Draw this baseline as ghost bars on the timeline">
+                              {compareBaselineId === b.id ? "On timeline" : "Show on timeline"}
+                            </Button>
+                            <Button variant="secondary" className="flex-1 rounded-2xl" onClick={() => setVarianceBaselineId(b.id)}>Variance</Button>
+                          </div>
+                        </div>
+                      ))}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-base">Import & Export</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <Button variant="secondary" className="rounded-2xl" onClick={() => exportICS()} title="Export the filtered milestones as an iCalendar (.ics) file">
+                    <Download className="h-4 w-4" /> Export .ics
+                  </Button>
+                  <Button variant="secondary" className="rounded-2xl" onClick={() => icsInputRef.current?.click()} title="Import events from an iCalendar (.ics) file">
+                    <Upload className="h-4 w-4" /> Import .ics
+                  </Button>
+                  <Button variant="secondary" className="rounded-2xl" onClick={exportCSV} title="Export the filtered milestones as a CSV spreadsheet">
+                    <Download className="h-4 w-4" /> Export .csv
+                  </Button>
+                  <Button variant="secondary" className="rounded-2xl" onClick={() => csvInputRef.current?.click()} title="Import or update milestones from a CSV spreadsheet">
+                    <Upload className="h-4 w-4" /> Import .csv
+                  </Button>
+                  <Button variant="secondary" className="rounded-2xl" onClick={downloadBackup} title="Download all projects, milestones and settings as JSON">
+                    <Download className="h-4 w-4" /> Backup
+                  </Button>
+                  <Button variant="secondary" className="rounded-2xl" onClick={() => backupInputRef.current?.click()} title="Replace all data with a JSON backup">
+                    <Upload className="h-4 w-4" /> Restore
+                  </Button>
+                </div>
+                <input ref={icsInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={onPickICSFile} />
+                <input ref={csvInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={onPickCSVFile} />
+                <input ref={backupInputRef} type="file" accept=".json,application/json" className="hidden" onChange={onPickBackupFile} />
+                <p className="text-xs text-slate-500">.ics and .csv exports follow the current filters. Backups include everything (schema v{SCHEMA_VERSION}).</p>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-base">Server Sync</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {!syncEndpoint ? (
+                  <>
+                    <div>
+                      <FormLabel label="Sync endpoint" htmlFor="sync-endpoint" />
+                      <Input id="sync-endpoint" value={endpointDraft} onChange={(e) => setEndpointDraft(e.target.value)} placeholder="http://localhost:8787" />
+                    </div>
+                    <Button className="w-full rounded-2xl" onClick={connectServerSync}>
+                      <RefreshCw className="h-4 w-4" /> Connect
+                    </Button>
+                    <p className="text-xs text-slate-500">Share projects and milestones through a REST endpoint. Run <code>npm run sync-server</code> for a local reference server.</p>
+                  </>
+                ) : (
+                  <>
+                    <div className="truncate text-xs text-slate-600" title={syncEndpoint}>{syncEndpoint}</div>
+                    <div className={`text-sm ${syncStatus.state === "error" ? "text-red-700" : syncStatus.state === "offline" ? "text-amber-700" : "text-slate-700"}`}>
+                      {syncStatus.state === "syncing" && "Syncing…"}
+                      {syncStatus.state === "synced" && `Synced at ${format(syncStatus.at!, "HH:mm:ss")}`}
+                      {syncStatus.state === "offline" && "Offline — changes will be sent when the server is reachable."}
+                      {syncStatus.state === "error" && syncStatus.message}
+                      {syncStatus.state === "idle" && "Waiting to sync…"}
+                      {syncQueued > 0 && <span className="block text-xs text-slate-500">{syncQueued} change{syncQueued === 1 ? "" : "s"} queued</span>}
+                      {syncConflicts.length > 0 && (
+                        <button className="block text-xs text-amber-700 underline" onClick={() => setShowConflicts(true)}>
+                          {syncConflicts.length} conflict{syncConflicts.length === 1 ? "" : "s"} to resolve
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="secondary" className="flex-1 rounded-2xl" onClick={() => runServerSync()} disabled={syncStatus.state === "syncing"}>
+                        <RefreshCw className="h-4 w-4" /> Sync now
+                      </Button>
+                      <Button variant="ghost" className="rounded-2xl" onClick={disconnectServerSync} title={syncQueued ? `${syncQueued} unsent change(s) will stay local only` : "Stop syncing with this server"}>
+                        Disconnect
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Right column: Calendar or Timeline */}
+          <div className="lg:col-span-2">
+            <Card className="shadow-sm">
+              <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <button className="rounded-xl p-1 hover:bg-slate-100" onClick={() => stepView(-1)} aria-label={`Previous ${stepUnit}`}>
+                    <ChevronLeft className="h-5 w-5" />
+                  </button>
+                  <span>{periodLabel}</span>
+                  <button className="rounded-xl p-1 hover:bg-slate-100" onClick={() => stepView(1)} aria-label={`Next ${stepUnit}`}>
+                    <ChevronRight className="h-5 w-5" />
+                  </button>
+                </CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button variant={mode === "calendar" ? "default" : "secondary"} onClick={() => setMode("calendar")} className="rounded-2xl">
+                    <CalendarIcon className="mr-2 h-4 w-4" /> Month
+                  </Button>
+                  <Button variant={mode === "week" ? "default" : "secondary"} onClick={() => setMode("week")} className="rounded-2xl">
+                    <CalendarDays className="mr-2 h-4 w-4" /> Week
+                  </Button>
+                  <Button variant={mode === "agenda" ? "default" : "secondary"} onClick={() => setMode("agenda")} className="rounded-2xl">
+                    <List className="mr-2 h-4 w-4" /> Agenda
+                  </Button>
+                  <Button variant={mode === "timeline" ? "default" : "secondary"} onClick={() => setMode("timeline")} className="rounded-2xl">
+                    <BarChart3 className="mr-2 h-4 w-4" /> Timeline
+                  </Button>
+                  <Button variant="secondary" className="rounded-2xl" onClick={() => setViewDate(new Date())}>Today</Button>
+                </div>
+              </CardHeader>
+
+              <CardContent>
+                {mode === "calendar" ? (
+                  <div role="grid" aria-label={format(viewDate, "MMMM yyyy")} aria-describedby="calendar-grid-help" ref={gridRef}>
+                    {moving && (
+                      <div className="mb-2 flex items-center justify-between gap-2 rounded-2xl bg-sky-50 px-3 py-1.5 text-xs text-sky-900">
+                        <span>Moving “{moving.title}” — arrow keys pick a day, Enter drops it there, Esc cancels.</span>
+                        <Button variant="ghost" className="rounded-2xl" onClick={cancelKeyboardMove}>Cancel</Button>
+                      </div>
+                    )}
+
+                    {/* Weekday headers */}
+                    <div role="row" className="grid grid-cols-7 gap-1 rounded-2xl bg-slate-50 p-2 text-xs font-medium text-slate-600">
+                      {"Sunday,Monday,Tuesday,Wednesday,Thursday,Friday,Saturday".split(",").map((d) => (
+                        <div role="columnheader" aria-label={d} className="px-2 py-1 text-center" key={d}>
+                          {d.slice(0, 3)}
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Calendar grid, one row per week */}
+                    <div role="rowgroup" className="mt-2 grid grid-cols-7 gap-1">
+                      {Array.from({ length: calendarDays.length / 7 }, (_, w) => (
+                        <div role="row" className="contents" key={w}>
+                          {calendarDays.slice(w * 7, w * 7 + 7).map((day) => {
+                            const key = format(day, "yyyy-MM-dd");
+                            const ms = milestonesByDay.get(key) || [];
+                            const muted = !isSameMonth(day, viewDate);
+                            const holiday = holidayName(gridCalendar, key);
+                            const focused = key === focusDay;
+                            const label = `${format(day, "EEEE, MMMM d, yyyy")}${isToday(day) ? ", today" : ""}${holiday ? `, ${holiday}` : ""}, ${ms.length ? `${ms.length} milestone${ms.length === 1 ? "" : "s"}` : "no milestones"}`;
+                            return (
+                              <div key={key} role="gridcell" tabIndex={focused ? 0 : -1} data-day={key} aria-label={moving ? `Move “${moving.title}” to ${label}` : label} className={`min-h-[110px] rounded-2xl border p-2 ${dayShade(day, holiday)} ${muted ? "opacity-60" : ""} relative cursor-pointer outline-none focus-visible:ring-2 focus-visible:ring-sky-500 ${moving && focused ? "ring-2 ring-sky-500" : ""}`} onClick={() => openCreateForDay(day)} onFocus={(e) => e.target === e.currentTarget && setFocusDay(key)} onKeyDown={(e) => onGridKeyDown(e, day)} onDragOver={(e) => e.preventDefault()} onDrop={(e) => onDropOnDay(e, day)} title={`${holiday ? `${holiday} · ` : ""}Click to add milestone on ${format(day, "PPP")}`}>
+                                <div className="flex items-center justify-between">
+                                  <div className={`text-xs ${isToday(day) ? "font-semibold" : ""}`}>{format(day, "d")}</div>
+                                  {isToday(day) && <span className="text-[10px] rounded-full bg-slate-900 px-2 py-0.5 font-medium text-white">Today</span>}
+                                </div>
+                                {holiday && <div className="truncate text-[10px] text-amber-700">{holiday}</div>}
+                                <div className="mt-1 space-y-1">
+                                  {ms.slice(0, 3).map((m) => renderChip(m, false, focused ? 0 : -1))}
+                                  {ms.length > 3 && <div className="text-[10px] text-slate-500">+{ms.length - 3} more</div>}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      ))}
+                    </div>
+                    <p id="calendar-grid-help" className="mt-2 text-[11px] text-slate-500">
+                      Keyboard: arrow keys move between days, Home/End to the start/end of the week (Ctrl for the month), PageUp/PageDown by month (Shift by year), Enter adds a milestone. Tab to a milestone, then Enter opens it or M moves it.
+                    </p>
+                  </div>
+                ) : mode === "week" ? (
+                  // Week View — taller cells, every milestone shown
+                  <div className="grid grid-cols-7 gap-1">
+                    {weekDays.map((day) => {
+                      const key = format(day, "yyyy-MM-dd");
+                      const ms = milestonesByDay.get(key) || [];
+                      const holiday = holidayName(gridCalendar, key);
+                      return (
+                        <div key={key} className={`flex min-h-[420px] cursor-pointer flex-col rounded-2xl border p-2 ${dayShade(day, holiday)}`} onClick={() => openCreateForDay(day)} onDragOver={(e) => e.preventDefault()} onDrop={(e) => onDropOnDay(e, day)} title={`${holiday ? `${holiday} · ` : ""}Click to add milestone on ${format(day, "PPP")}`}>
+                          <div className="mb-1 flex items-baseline justify-between border-b pb-1">
+                            <span className="text-xs font-medium text-slate-600">{format(day, "EEE")}</span>
+                            <span className={`rounded-full px-1.5 text-sm ${isToday(day) ? "bg-slate-900 font-semibold text-white" : ""}`}>{format(day, "d")}</span>
+                          </div>
+                          {holiday && <div className="mb-1 truncate text-[10px] text-amber-700">{holiday}</div>}
+                          <div className="space-y-1">{ms.map((m) => renderChip(m, true))}</div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : mode === "agenda" ? (
+                  // Agenda View — upcoming milestones grouped by day
+                  <div className="max-h-[640px] space-y-4 overflow-y-auto pr-1">
+                    {agendaGroups.length === 0 && <p className="py-8 text-center text-sm text-slate-500">No milestones between {periodLabel}.</p>}
+                    {agendaGroups.map(({ day, items }) => (
+                      <div key={day}>
+                        <div className={`sticky top-0 z-10 bg-white py-1 text-xs font-semibold ${isToday(parseISO(day)) ? "text-slate-900" : "text-slate-600"}`}>
+                          {format(parseISO(day), "EEEE, MMMM d")}
+                          {isToday(parseISO(day)) && <span className="ml-2 rounded-full bg-slate-900 px-2 py-0.5 text-[10px] font-medium text-white">Today</span>}
+                        </div>
+                        <div className="space-y-1">
+                          {items.map((m) => {
+                            const shown = viewerDays(m);
+                            const info = schedule.get(m.id);
+                            const status = statusOf(m);
+                            return (
+                              <div key={m.occurrenceDate ? `${m.id}@${m.occurrenceDate}` : m.id} className="flex items-center gap-1">
+                                <button
+                                  className="flex min-w-0 flex-1 items-center gap-3 rounded-xl border bg-white p-2 text-left hover:bg-slate-50"
+                                  onClick={() => openEditMilestone(m)}
+                                >
+                                  <span className="h-8 w-1 flex-shrink-0 rounded-full" style={{ backgroundColor: projectsMap[m.projectId]?.color }} />
+                                  <div className="min-w-0 flex-1">
+                                    <div className="flex items-center gap-2">
+                                      {m.occurrenceDate && <Repeat className="h-3 w-3 flex-shrink-0 text-slate-500" />}
+                                      <span className={`truncate text-sm font-medium ${STATUS_CHIP[status]}`}>{m.title}</span>
+                                      {status !== "planned" && <span className={`flex-shrink-0 rounded-full px-2 py-0.5 text-[10px] font-medium ${STATUS_BADGE[status]}`}>{STATUS_LABELS[status]}</span>}
+                                      {m.checklist?.length ? (
+                                        <span className="inline-flex flex-shrink-0 items-center gap-0.5 text-[11px] tabular-nums text-slate-500">
+                                          <ListChecks className="h-3 w-3" /> {describeChecklist(m)}
+                                        </span>
+                                      ) : null}
+                                      {isOverdue(m, todayISO) && <span className="flex-shrink-0 rounded-full bg-red-100 px-2 py-0.5 text-[10px] font-medium text-red-700">Overdue</span>}
+                                      {info?.critical && <span className="flex-shrink-0 rounded-full bg-red-100 px-2 py-0.5 text-[10px] font-medium text-red-700">Critical</span>}
+                                    </div>
+                                    <div className="text-xs text-slate-500">
+                                      {isTimed(m) && <span title={describeOriginalTime(m)}>{formatTimes(m)} · </span>}
+                                      {shown.endDate !== shown.date ? `${format(parseISO(shown.date), "MMM d")} – ${format(parseISO(shown.endDate), "MMM d")} · ` : ""}
+                                      {projectsMap[m.projectId]?.name || "Unknown project"}
+                                      {m.labels && m.labels.length > 0 && ` · ${m.labels.join(", ")}`}
+                                    </div>
+                                  </div>
+                                </button>
+                                {!m.recurrence && (
+                                  <Button size="icon" variant="ghost" onClick={() => toggleDone(m)} title={status === "done" ? "Reopen" : "Mark done"}>
+                                    {status === "done" ? <RotateCcw className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4" />}
+                                  </Button>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  // Timeline View
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between text-xs text-slate-600">
+                      <span>
+                        {format(tlWindow.start, "MMM d, yyyy")} – {format(tlWindow.end, "MMM d, yyyy")}
+                      </span>
+                      <div className="flex gap-1" role="group" aria-label="Timeline zoom">
+                        {TIMELINE_ZOOMS.map((z) => (
+                          <Button key={z} variant={timelineZoom === z ? "default" : "secondary"} className="h-7 rounded-xl px-3 text-xs" onClick={() => setTimelineZoom(z)}>
+                            {ZOOM_LABELS[z]}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <div ref={timelineScrollRef} className="overflow-x-auto rounded-2xl border bg-white">
+                    <div ref={timelineRef} className="relative" style={{ width: tlWindow.days * dayWidth }}>
+                      {/* header scale */}
+                      <div className="border-b bg-white text-[10px] text-slate-600">
+                        {[tlScale.major, tlScale.minor].map((row, r) => (
+                          <div key={r} className={`relative h-5 ${r === 0 ? "border-b font-semibold text-slate-700" : ""}`}>
+                            {row.map((c) => (
+                              <div key={c.key} className="absolute inset-y-0 truncate border-l border-slate-200 px-1 leading-5" style={{ left: c.startIndex * dayWidth, width: c.span * dayWidth }} title={c.label}>
+                                {c.label}
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                      {timelineRows.map(({ project, depth, childCount, summary, items, offDays, ghosts }) => (
+                        <div key={project.id} data-project-row={project.id} className={`border-b py-2 last:border-b-0 ${barDrag && barDrag.projectId === project.id && barDrag.projectId !== barDrag.fromProjectId ? "bg-sky-50" : ""}`}>
+                          <div className="sticky left-0 mb-1 inline-flex items-center gap-2 pr-3" style={{ paddingLeft: 12 + depth * 16 }}>
+                            {childCount > 0 && (
+                              <button
+                                className="rounded text-slate-500 hover:text-slate-900"
+                                onClick={() => setCollapsedGroups((g) => (g.includes(project.id) ? g.filter((id) => id !== project.id) : [...g, project.id]))}
+                                aria-expanded={!collapsedGroups.includes(project.id)}
+                                aria-label={`${collapsedGroups.includes(project.id) ? "Expand" : "Collapse"} ${project.name}`}
+                              >
+                                {collapsedGroups.includes(project.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                              </button>
+                            )}
+                            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: project.color }} />
+                            <span className="text-sm font-semibold">{project.name}</span>
+                            {childCount > 0 && (
+                              <span className="text-xs text-slate-500">
+                                {rollUps.get(project.id)?.milestones ?? 0} milestones{rollUps.get(project.id)?.overdue ? ` · ${rollUps.get(project.id)!.overdue} overdue` : ""}
+                              </span>
+                            )}
+                          </div>
+                          <div className="relative h-10 w-full overflow-visible bg-slate-50">
+                            {offDays.map((d) => (
+                              <div key={d.index} className={`absolute inset-y-0 ${d.holiday ? "bg-amber-100/70" : "bg-slate-200/60"}`} style={{ left: d.index * dayWidth, width: dayWidth }} title={d.holiday} />
+                            ))}
+                            {/* minor-unit grid lines */}
+                            {tlScale.minor.map((c) => (
+                              <div key={c.key} className="absolute inset-y-0 w-px bg-slate-200" style={{ left: c.startIndex * dayWidth }} />
+                            ))}
+                            {/* group summary bar along the top of the lane */}
+                            {summary && (
+                              <div
+                                className={`absolute top-0.5 h-1.5 rounded-sm ${summary.continuesBefore ? "rounded-l-none" : ""} ${summary.continuesAfter ? "rounded-r-none" : ""}`}
+                                style={{ left: summary.startIndex * dayWidth, width: Math.max(6, (summary.endIndex - summary.startIndex + 1) * dayWidth), backgroundColor: project.color }}
+                                title={`${project.name}: ${summary.dates}`}
+                              />
+                            )}
+                            {/* baseline ghost bars, nudged down so they show even where nothing moved */}
+                            {ghosts.map((g) => (
+                              <div
+                                key={`ghost-${g.id}`}
+                                className="pointer-events-none absolute top-1/2 mt-1 h-3 rounded-full border border-dashed border-slate-400 bg-slate-300/40"
+                                style={{ left: g.startIndex * dayWidth, width: Math.max(6, (g.endIndex - g.startIndex + 1) * dayWidth) }}
+                              />
+                            ))}
+                            {/* milestone bars */}
+                            {items.map((it) => {
+                              const drag = barDrag?.key === it.key ? barDrag : null;
+                              // While dragging, the bar previews its snapped position
+                              const preview = drag ? viewerDays({ ...it.milestone, ...barRange(it.milestone, drag.kind, drag.delta, drag.projectId) }) : null;
+                              const from = preview ? Math.max(0, differenceInCalendarDays(parseISO(preview.date), tlWindow.start)) : it.startIndex;
+                              const to = preview ? Math.min(tlWindow.days - 1, differenceInCalendarDays(parseISO(preview.endDate), tlWindow.start)) : it.endIndex;
+                              return (
+                                <div key={it.key} className="group absolute top-1/2 -translate-y-1/2" style={{ left: from * dayWidth, width: Math.max(6, (to - from + 1) * dayWidth) }}>
+                                  <div
+                                    ref={(el) => {
+                                      // Arrows attach to one-off milestones; a series has no single bar
+                                      if (it.recurring) return;
+                                      if (el) barRefs.current.set(it.id, el);
+                                      else barRefs.current.delete(it.id);
+                                    }}
+                                    data-bar-key={it.key}
+                                    role="button"
+                                    tabIndex={0}
+                                    aria-label={`${it.title}, ${it.dates}, ${STATUS_LABELS[it.status]} ${it.progress}%${it.overdue ? ", overdue" : ""}. Arrow keys move by a day${it.recurring ? "" : ", Shift or Alt with arrows resize the end or start, Up and Down change project"}; Enter opens.`}
+                                    className={`relative flex h-3 cursor-grab touch-none items-center justify-between rounded-full text-[9px] leading-none text-white outline-none focus-visible:ring-2 focus-visible:ring-sky-500 focus-visible:ring-offset-1 ${drag ? "cursor-grabbing opacity-80 shadow-md" : ""} ${it.continuesBefore ? "rounded-l-none" : ""} ${it.continuesAfter ? "rounded-r-none" : ""} ${it.critical ? "ring-2 ring-red-500 ring-offset-1" : ""} ${it.status === "cancelled" ? "opacity-40" : ""} ${it.overdue ? "border border-dashed border-red-600" : ""}`}
+                                    style={{ backgroundColor: `${project.color}66` }}
+                                    onPointerDown={(e) => onBarPointerDown(e, it.key, project.id)}
+                                    onPointerMove={(e) => onBarPointerMove(e, it.recurring)}
+                                    onPointerUp={() => onBarPointerUp(it.milestone)}
+                                    onPointerCancel={() => setBarDrag(null)}
+                                    onKeyDown={(e) => onBarKeyDown(e, it.milestone, it.key)}
+                                  >
+                                    {/* percent complete fills the bar from the left */}
+                                    <span className="pointer-events-none absolute inset-y-0 left-0 rounded-[inherit]" style={{ width: `${it.progress}%`, backgroundColor: project.color }} />
+                                    {/* bars clipped at the window edge point the way they continue */}
+                                    <span className="relative">{it.continuesBefore && <ChevronLeft className="h-3 w-3" aria-label="Starts before the visible range" />}</span>
+                                    <span className="relative">{it.continuesAfter && <ChevronRight className="h-3 w-3" aria-label="Continues past the visible range" />}</span>
+                                    {/* resize handles (series occurrences keep their length) */}
+                                    {!it.recurring && (
+                                      <>
+                                        <div data-handle="start" className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize rounded-l-full bg-black/20 opacity-0 group-hover:opacity-100" />
+                                        <div data-handle="end" className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize rounded-r-full bg-black/20 opacity-0 group-hover:opacity-100" />
+                                      </>
+                                    )}
+                                  </div>
+                                  {drag && preview ? (
+                                    <div className="pointer-events-none absolute -top-9 left-1/2 z-20 -translate-x-1/2 whitespace-nowrap rounded-md bg-slate-900 px-2 py-1 text-[10px] text-white shadow-lg">
+                                      {format(parseISO(preview.date), "EEE MMM d")}
+                                      {preview.endDate !== preview.date && ` → ${format(parseISO(preview.endDate), "EEE MMM d")}`}
+                                      {drag.projectId !== drag.fromProjectId && ` · to ${projectsMap[drag.projectId]?.name}`}
+                                    </div>
+                                  ) : (
+                                    <div className="pointer-events-none absolute -top-9 left-1/2 hidden -translate-x-1/2 whitespace-nowrap rounded-md bg-slate-900 px-2 py-1 text-[10px] text-white shadow-lg group-hover:block z-20">
+                                      {it.title} · {it.dates} · {formatDuration(it.milestone)} · {STATUS_LABELS[it.status]} {it.progress}%{describeChecklist(it.milestone) && ` · ${describeChecklist(it.milestone)} checked`}{it.overdue && " · overdue"} · {it.recurring ? "recurring" : it.slack}
+                                    </div>
+                                  )}
                                 </div>
                               );
                             })}
                           </div>
                         </div>
                       ))}
+                      {/* dependency arrows */}
+                      {depArrows.length > 0 && (
+                        <svg className="pointer-events-none absolute inset-0 z-10 h-full w-full overflow-visible">
+                          <defs>
+                            <marker id="dep-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                              <path d="M 0 0 L 8 4 L 0 8 z" fill="#475569" />
+                            </marker>
+                          </defs>
+                          {depArrows.map((a) => (
+                            <path key={a.key} d={a.d} fill="none" stroke="#475569" strokeWidth={1.5} strokeDasharray="4 3" markerEnd="url(#dep-arrow)" />
+                          ))}
+                        </svg>
+                      )}
+                    </div>
                     </div>
                   </div>
                 )}
@@ -718,16 +3241,39 @@ export default function ProjectCalendarApp() {
                 <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
                   {applyFilters(milestones)
                     .slice()
-                    .sort((a, b) => +parseISO(a.date) - +parseISO(b.date))
+                    .sort((a, b) => +parseISO(a.date) - +parseISO(b.date) || startsAt(a) - startsAt(b))
                     .map((m) => (
                       <div key={m.id} className="flex items-center justify-between rounded-xl border bg-white p-3">
                         <div className="min-w-0">
                           <div className="flex items-center gap-2">
                             <span className="h-3 w-3 flex-shrink-0 rounded-full" style={{ backgroundColor: projectsMap[m.projectId]?.color }} />
-                            <span className="truncate text-sm font-medium">{m.title}</span>
+                            <span className={`truncate text-sm font-medium ${STATUS_CHIP[statusOf(m)]}`}>{m.title}</span>
+                            <span className={`flex-shrink-0 rounded-full px-2 py-0.5 text-[10px] font-medium ${STATUS_BADGE[statusOf(m)]}`}>
+                              {STATUS_LABELS[statusOf(m)]}
+                              {(statusOf(m) === "in_progress" || statusOf(m) === "at_risk") && ` ${progressOf(m)}%`}
+                            </span>
+                            {m.checklist?.length ? (
+                              <span className="inline-flex flex-shrink-0 items-center gap-0.5 text-[11px] tabular-nums text-slate-500" title={m.checklist.map((i) => `${i.done ? "☑" : "☐"} ${i.text}${i.assignee ? ` (${i.assignee})` : ""}${i.due ? ` · due ${i.due}` : ""}`).join("\n")}>
+                                <ListChecks className="h-3 w-3" /> {describeChecklist(m)}
+                              </span>
+                            ) : null}
+                            {isOverdue(m, todayISO) && <span className="flex-shrink-0 rounded-full bg-red-100 px-2 py-0.5 text-[10px] font-medium text-red-700" title={`Ended ${format(parseISO(safeEnd(m.date, m.endDate)), "PP")} and not done`}>Overdue</span>}
+                            {schedule.get(m.id)?.critical ? (
+                              <span className="flex-shrink-0 rounded-full bg-red-100 px-2 py-0.5 text-[10px] font-medium text-red-700" title="On the critical path: any slip moves the project end date">Critical</span>
+                            ) : schedule.get(m.id) ? (
+                              <span className="flex-shrink-0 rounded-full bg-slate-100 px-2 py-0.5 text-[10px] text-slate-600" title={`Can slip until ${format(parseISO(schedule.get(m.id)!.latestStart), "PP")} without moving the project end`}>
+                                {schedule.get(m.id)!.slackDays}d slack
+                              </span>
+                            ) : null}
                           </div>
                           <div className="pl-5 text-xs text-slate-600">
-                            {format(parseISO(m.date), "PPP")} {m.endDate && safeEnd(m.date, m.endDate) !== m.date ? `– ${format(parseISO(safeEnd(m.date, m.endDate)!), "PPP")}` : ""} · {projectsMap[m.projectId]?.name || "Unknown project"}
+                            {describeDays(m)}
+                            {isTimed(m) && <span title={describeOriginalTime(m)}> {formatTimes(m)}</span>} · {projectsMap[m.projectId]?.name || "Unknown project"}
+                            {m.recurrence && (
+                              <div className="mt-0.5 flex items-center gap-1 text-slate-500">
+                                <Repeat className="h-3 w-3" /> {describeRecurrence(m.recurrence, m.date)}
+                              </div>
+                            )}
                             {m.labels && m.labels.length > 0 && (
                               <div className="mt-1 flex flex-wrap gap-1">
                                 {m.labels.map((t) => (
@@ -735,10 +3281,13 @@ export default function ProjectCalendarApp() {
                                 ))}
                               </div>
                             )}
-                            {m.notes ? <div className="mt-1 line-clamp-2 max-w-md pr-4 text-slate-500">{m.notes}</div> : null}
+                            {m.notes ? <MarkdownView source={m.notes} resolve={(t) => resolveRef(t, milestones, m.projectId)} onOpen={openEditMilestone} className="mt-1 max-h-32 max-w-md overflow-y-auto pr-4 text-slate-500" /> : null}
                           </div>
                         </div>
                         <div className="flex items-center gap-1">
+                          <Button size="icon" variant="ghost" onClick={() => toggleDone(m)} title={statusOf(m) === "done" ? "Reopen" : "Mark done"}>
+                            {statusOf(m) === "done" ? <RotateCcw className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4" />}
+                          </Button>
                           <Button size="icon" variant="ghost" onClick={() => openEditMilestone(m)} title="Edit">
                             <Flag className="h-4 w-4" />
                           </Button>
@@ -754,7 +3303,7 @@ export default function ProjectCalendarApp() {
           </div>
         </div>
 
-        <footer className="mt-8 text-center text-xs text-slate-500">Made with ❤️ — data stays in your browser (localStorage).</footer>
+        <footer className="mt-8 text-center text-xs text-slate-500">Made with ❤️ — data stays in your browser ({storage.current?.label || "not saved"}).</footer>
       </div>
 
       {/* Create/Edit Modal */}
@@ -775,6 +3324,37 @@ export default function ProjectCalendarApp() {
                 <Input type="date" value={draft.endDate} onChange={(e) => setDraft({ ...draft, endDate: safeEnd(draft.date, e.target.value) || draft.date })} />
               </div>
             </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={!draft.startTime} onChange={(e) => setDraft({ ...draft, startTime: e.target.checked ? "" : "09:00", endTime: e.target.checked ? "" : "10:00" })} />
+              All day
+            </label>
+            {draft.startTime && (
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <FormLabel label="Start time" />
+                  <Input type="time" value={draft.startTime} onChange={(e) => e.target.value && setDraft({ ...draft, startTime: e.target.value })} />
+                </div>
+                <div>
+                  <FormLabel label="End time" />
+                  <Input type="time" value={draft.endTime} onChange={(e) => setDraft({ ...draft, endTime: e.target.value })} />
+                </div>
+                <div>
+                  <FormLabel label="Time zone" htmlFor="milestone-tz" />
+                  <Input id="milestone-tz" list="time-zones" value={draft.timeZone} onChange={(e) => setDraft({ ...draft, timeZone: e.target.value.trim() })} />
+                  <datalist id="time-zones">
+                    {timeZones.map((tz) => (
+                      <option key={tz} value={tz} />
+                    ))}
+                  </datalist>
+                </div>
+                {draft.timeZone !== viewerTimeZone() && isValidTimeZone(draft.timeZone) && (
+                  <p className="col-span-3 text-xs text-slate-500">
+                    Shown to you as {formatTimes({ ...draft, endTime: draft.endTime || null })} {viewerTimeZone()}
+                    {viewerDays({ ...draft, endTime: draft.endTime || null }).date !== draft.date && ` on ${viewerDays({ ...draft, endTime: draft.endTime || null }).date}`}.
+                  </p>
+                )}
+              </div>
+            )}
             <div>
               <FormLabel label="Project" required />
               <Select value={draft.projectId} onValueChange={(v) => setDraft({ ...draft, projectId: v })}>
@@ -782,7 +3362,7 @@ export default function ProjectCalendarApp() {
                   <SelectValue placeholder="Select project" />
                 </SelectTrigger>
                 <SelectContent>
-                  {projects.map((p) => (
+                  {projects.filter((p) => !p.archived || p.id === draft.projectId).map((p) => (
                     <SelectItem value={p.id} key={p.id} label={p.name} dotColor={p.color}>
                       {p.name}
                     </SelectItem>
@@ -790,17 +3370,160 @@ export default function ProjectCalendarApp() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <FormLabel label="Status" />
+                <Select value={statusOf(draftTracking)} onValueChange={(v) => setDraft({ ...draft, status: v as MilestoneStatus, progress: v === "done" ? 100 : draft.progress })}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MILESTONE_STATUSES.map((st) => (
+                      <SelectItem key={st} value={st} label={STATUS_LABELS[st]} />
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <FormLabel label={`Complete: ${progressOf(draftTracking)}%${checklistDriven ? " (from checklist)" : ""}`} htmlFor="milestone-progress" />
+                <input
+                  id="milestone-progress"
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={progressOf(draftTracking)}
+                  disabled={draft.status === "done" || checklistDriven}
+                  onChange={(e) => setDraft({ ...draft, progress: Number(e.target.value), status: draft.status === "planned" && Number(e.target.value) > 0 ? "in_progress" : draft.status })}
+                  className="mt-3 w-full"
+                />
+              </div>
+            </div>
+            <div>
+              <FormLabel label={`Checklist${draft.checklist.length ? ` (${describeChecklist(draft)})` : ""}`} />
+              <div className="mt-1">
+                <ChecklistEditor value={draft.checklist} start={draft.date} end={safeEnd(draft.date, draft.endDate)} onChange={(checklist) => setDraft({ ...draft, checklist })} />
+              </div>
+              {draft.checklist.length > 0 && (
+                <label className="mt-2 flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={draft.progressFromChecklist} onChange={(e) => setDraft({ ...draft, progressFromChecklist: e.target.checked })} />
+                  Derive status and % complete from the checklist
+                </label>
+              )}
+            </div>
             <div>
               <FormLabel label="Labels" />
               <TagInput value={draft.labels} onChange={(labels) => setDraft({ ...draft, labels })} />
             </div>
             <div>
-              <FormLabel label="Notes" />
-              <textarea value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} rows={3} className="mt-1 w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-400" placeholder="Any context or checklist details…" />
+              <FormLabel label="Repeats" />
+              <RecurrenceEditor value={draft.recurrence} start={draft.date} onChange={(recurrence) => setDraft({ ...draft, recurrence })} />
+            </div>
+            <div>
+              <FormLabel label="Depends on" />
+              <div className="mt-1 space-y-2">
+                {draft.dependencies.map((dep, i) => (
+                  <div key={i} className="rounded-md border border-slate-200 p-2">
+                    <Select value={dep.predecessorId} onValueChange={(v) => updateDraftDependency(i, { predecessorId: v })} placeholder="Select milestone">
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select milestone" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {dependencyCandidates(dep.predecessorId).map((m) => (
+                          <SelectItem key={m.id} value={m.id} label={m.title} dotColor={projectsMap[m.projectId]?.color}>
+                            {m.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="mt-1 flex items-end gap-2">
+                      <Select className="flex-1" value={dep.type} onValueChange={(v) => updateDraftDependency(i, { type: v as Dependency["type"] })}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(DEPENDENCY_TYPE_LABELS) as Dependency["type"][]).map((t) => (
+                            <SelectItem key={t} value={t} label={DEPENDENCY_TYPE_LABELS[t]}>{DEPENDENCY_TYPE_LABELS[t]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="w-24">
+                        <Input type="number" value={dep.lagDays} onChange={(e) => updateDraftDependency(i, { lagDays: Number(e.target.value) || 0 })} title="Lag in days" aria-label="Lag in days" />
+                      </div>
+                      <span className="pb-2 text-xs text-slate-500">days lag</span>
+                      <button className="mb-1 rounded-xl p-1 hover:bg-slate-100" onClick={() => setDraft({ ...draft, dependencies: draft.dependencies.filter((_, j) => j !== i) })} aria-label="Remove dependency">
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {dependencyCandidates("").length > 0 ? (
+                  <button className="text-xs underline text-slate-600" onClick={() => setDraft({ ...draft, dependencies: [...draft.dependencies, { predecessorId: dependencyCandidates("")[0].id, type: "FS", lagDays: 0 }] })}>
+                    + Add dependency
+                  </button>
+                ) : (
+                  draft.dependencies.length === 0 && <p className="text-xs text-slate-400">No other milestones to depend on.</p>
+                )}
+              </div>
+            </div>
+            {draftError && <p className="rounded-md bg-red-50 px-3 py-2 text-xs text-red-700">{draftError}</p>}
+            <div>
+              <div className="flex items-center justify-between">
+                <FormLabel label="Notes" htmlFor="milestone-notes" />
+                <div className="flex gap-1" role="tablist" aria-label="Notes">
+                  {(["write", "preview"] as const).map((t) => (
+                    <Button key={t} role="tab" aria-selected={notesTab === t} variant={notesTab === t ? "default" : "secondary"} className="h-6 rounded-xl px-2 text-xs" onClick={() => setNotesTab(t)}>
+                      {t === "write" ? "Write" : "Preview"}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {notesTab === "write" ? (
+                <textarea id="milestone-notes" value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} rows={4} className="mt-1 w-full rounded-md border border-slate-300 bg-white px-3 py-2 font-mono text-sm outline-none focus:ring-2 focus:ring-slate-400" placeholder="Any context or links…" />
+              ) : (
+                <div className="mt-1 min-h-[6.5rem] rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm">
+                  {draft.notes.trim() ? <MarkdownView source={draft.notes} resolve={(t) => resolveRef(t, milestones, draft.projectId)} onOpen={openEditMilestone} /> : <span className="text-slate-400">Nothing to preview.</span>}
+                </div>
+              )}
+              <p className="mt-1 text-xs text-slate-500">Markdown: # headings, - lists, **bold**, *italic*, `code`, [links](https://…). Link a milestone with #[its title].</p>
+              {draft.notes.includes("#[") && milestoneRefs(draft.notes).some((t) => !resolveRef(t, milestones, draft.projectId)) && (
+                <p className="mt-1 text-xs text-amber-700">No milestone matches {milestoneRefs(draft.notes).filter((t) => !resolveRef(t, milestones, draft.projectId)).map((t) => `“${t}”`).join(", ")}.</p>
+              )}
             </div>
+            {linkedFrom.length > 0 && (
+              <div>
+                <FormLabel label="Linked from" />
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {linkedFrom.map((m) => (
+                    <button key={m.id} type="button" className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-xs hover:bg-slate-200" onClick={() => openEditMilestone(m)}>
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: projectsMap[m.projectId]?.color }} />
+                      {m.title}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {editingOccurrence && (
+              <div>
+                <div className="text-xs text-slate-600">This is the {format(parseISO(editingOccurrence), "PP")} occurrence of a recurring milestone. Apply changes to:</div>
+                <div className="mt-1 flex gap-1" role="radiogroup" aria-label="Apply changes to">
+                  {(Object.keys(RECURRENCE_SCOPE_LABELS) as RecurrenceScope[]).map((sc) => (
+                    <button
+                      key={sc}
+                      role="radio"
+                      aria-checked={occurrenceScope === sc}
+                      onClick={() => setOccurrenceScope(sc)}
+                      className={`rounded-full px-3 py-1 text-xs ${occurrenceScope === sc ? "bg-slate-900 text-white" : "bg-slate-100 text-slate-700 hover:bg-slate-200"}`}
+                    >
+                      {RECURRENCE_SCOPE_LABELS[sc]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             <div className="flex items-center justify-between pt-1">
               {editingId ? (
-                <Button variant="destructive" onClick={deleteFromModal}>Delete</Button>
+                <Button variant="destructive" onClick={deleteFromModal}>{editingOccurrence ? `Delete ${RECURRENCE_SCOPE_LABELS[occurrenceScope].toLowerCase()}` : "Delete"}</Button>
               ) : (
                 <span className="text-xs text-slate-500">Press Enter to save</span>
               )}
@@ -812,6 +3535,570 @@ export default function ProjectCalendarApp() {
           </div>
         </Modal>
       </AnimatePresence>
+
+      {/* Variance Report */}
+      <AnimatePresence>
+        <Modal open={!!variance} onClose={() => setVarianceBaselineId(null)} title={`Variance vs “${varianceBaseline?.name || ""}”`} wide>
+          {variance && varianceBaseline && (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-600">
+                {projectsMap[varianceBaseline.projectId]?.name || "Deleted project"}, compared with the plan captured {format(parseISO(varianceBaseline.capturedAt), "PPp")}.
+                {variance.finishSlip !== null && (
+                  <>
+                    {" "}Project end: <b className={slipClass(variance.finishSlip)}>{describeSlip(variance.finishSlip)}</b>.
+                  </>
+                )}
+              </p>
+              {variance.rows.length > 0 && (
+                <div className="max-h-80 overflow-auto rounded-xl border">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-slate-50 text-left text-xs text-slate-500">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">Milestone</th>
+                        <th className="px-3 py-2 font-medium">Baseline</th>
+                        <th className="px-3 py-2 font-medium">Current</th>
+                        <th className="px-3 py-2 text-right font-medium">Start slip</th>
+                        <th className="px-3 py-2 text-right font-medium">End slip</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {variance.rows.map((r) => (
+                        <tr key={r.id} className="border-t">
+                          <td className="px-3 py-1.5">{r.title}</td>
+                          <td className="whitespace-nowrap px-3 py-1.5 text-slate-500">{r.baseline.date === r.baseline.endDate ? r.baseline.date : `${r.baseline.date} → ${r.baseline.endDate}`}</td>
+                          <td className="whitespace-nowrap px-3 py-1.5">{r.current.date === r.current.endDate ? r.current.date : `${r.current.date} → ${r.current.endDate}`}</td>
+                          <td className={`px-3 py-1.5 text-right tabular-nums ${slipClass(r.startSlip)}`}>{describeSlip(r.startSlip)}</td>
+                          <td className={`px-3 py-1.5 text-right tabular-nums ${slipClass(r.endSlip)}`}>{describeSlip(r.endSlip)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <div className="grid gap-3 md:grid-cols-2">
+                <div>
+                  <div className="text-sm font-medium">Added since ({variance.added.length})</div>
+                  <ul className="mt-1 space-y-0.5 text-xs text-slate-600">
+                    {variance.added.map((m) => (
+                      <li key={m.id}>
+                        {m.title} · {m.date}
+                      </li>
+                    ))}
+                    {variance.added.length === 0 && <li className="text-slate-400">None</li>}
+                  </ul>
+                </div>
+                <div>
+                  <div className="text-sm font-medium">Removed since ({variance.removed.length})</div>
+                  <ul className="mt-1 space-y-0.5 text-xs text-slate-600">
+                    {variance.removed.map((b) => (
+                      <li key={b.id} className="line-through">
+                        {b.title} · {b.date}
+                      </li>
+                    ))}
+                    {variance.removed.length === 0 && <li className="text-slate-400">None</li>}
+                  </ul>
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button variant="secondary" onClick={() => setVarianceBaselineId(null)}>Close</Button>
+              </div>
+            </div>
+          )}
+        </Modal>
+      </AnimatePresence>
+
+      {/* Edit Project */}
+      <AnimatePresence>
+        <Modal open={!!projectDraft} onClose={() => setProjectDraft(null)} title="Edit project">
+          {projectDraft && (
+            <div className="space-y-3">
+              <div>
+                <FormLabel label="Project name" required htmlFor="project-name" />
+                <Input id="project-name" value={projectDraft.name} onChange={(e) => setProjectDraft({ ...projectDraft, name: e.target.value })} />
+              </div>
+              <div>
+                <FormLabel label="Color" />
+                <div className="flex flex-wrap gap-2 pt-1">
+                  {COLOR_OPTIONS.map((c) => (
+                    <button key={c} onClick={() => setProjectDraft({ ...projectDraft, color: c })} className={`h-7 w-7 rounded-full ring-2 transition ${projectDraft.color === c ? "ring-slate-900" : "ring-transparent"}`} style={{ backgroundColor: c }} title={c} />
+                  ))}
+                </div>
+              </div>
+              <div>
+                <FormLabel label="Part of" />
+                <Select value={projectDraft.parentId} onValueChange={(v) => setProjectDraft({ ...projectDraft, parentId: v })}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Top level" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="" label="— top level —">— top level —</SelectItem>
+                    {parentCandidates(projectDraft.id).map((p) => (
+                      <SelectItem value={p.id} key={p.id} label={p.name} dotColor={p.color}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="mt-1 text-xs text-slate-500">Group projects under a program or portfolio; its timeline row sums them up.</p>
+              </div>
+              <div>
+                <FormLabel label="Owner" htmlFor="project-owner" />
+                <Input id="project-owner" value={projectDraft.owner} onChange={(e) => setProjectDraft({ ...projectDraft, owner: e.target.value })} placeholder="e.g., Dana, Platform team" />
+              </div>
+              <div>
+                <FormLabel label="Description" htmlFor="project-description" />
+                <textarea id="project-description" value={projectDraft.description} onChange={(e) => setProjectDraft({ ...projectDraft, description: e.target.value })} rows={3} className="mt-1 w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-slate-400" />
+              </div>
+              <div className="flex justify-end gap-2 pt-1">
+                <Button variant="secondary" onClick={() => setProjectDraft(null)}>Cancel</Button>
+                <Button onClick={saveProjectDraft} disabled={!projectDraft.name.trim()}>Save changes</Button>
+              </div>
+            </div>
+          )}
+        </Modal>
+      </AnimatePresence>
+
+      {/* Delete Project */}
+      <AnimatePresence>
+        <Modal open={!!deletingProject} onClose={() => setDeletingProjectId(null)} title={`Delete “${deletingProject?.name || ""}”?`}>
+          {deletingProject && deletionImpact && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                {deletionImpact.milestones.length ? (
+                  <>
+                    <b>{deletionImpact.milestones.length}</b> milestone{deletionImpact.milestones.length === 1 ? "" : "s"} will be deleted along with the project.
+                  </>
+                ) : (
+                  "The project has no milestones."
+                )}{" "}
+                Both go to the trash, where they can be restored.
+              </p>
+              {deletingChildren > 0 && (
+                <p className="text-sm">
+                  Its {deletingChildren} sub-project{deletingChildren === 1 ? "" : "s"} will move up a level and are not deleted.
+                </p>
+              )}
+              {deletionImpact.links > 0 && (
+                <p className="rounded-md bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                  {deletionImpact.links} dependenc{deletionImpact.links === 1 ? "y" : "ies"} in other projects point{deletionImpact.links === 1 ? "s" : ""} at these milestones and will be removed.
+                </p>
+              )}
+              {!deletingProject.archived && <p className="text-xs text-slate-500">To only hide it from views, archive it instead.</p>}
+              <div className="flex flex-wrap justify-end gap-2 pt-1">
+                <Button variant="secondary" onClick={() => setDeletingProjectId(null)}>Cancel</Button>
+                {!deletingProject.archived && (
+                  <Button
+                    variant="secondary"
+                    onClick={() => {
+                      setArchived(deletingProject.id, true);
+                      setDeletingProjectId(null);
+                    }}
+                  >
+                    Archive
+                  </Button>
+                )}
+                <Button variant="destructive" onClick={() => deleteProject(deletingProject.id)}>Delete</Button>
+              </div>
+            </div>
+          )}
+        </Modal>
+      </AnimatePresence>
+
+      {/* Trash */}
+      <AnimatePresence>
+        <Modal open={showTrash} onClose={() => setShowTrash(false)} title="Trash">
+          <div className="space-y-3">
+            {trash.length === 0 ? (
+              <p className="text-sm text-slate-500">The trash is empty.</p>
+            ) : (
+              <ul className="max-h-80 space-y-2 overflow-y-auto">
+                {trash.map((e) => (
+                  <li key={e.id} className="flex items-center gap-2 rounded-xl border p-2">
+                    <span className="h-3 w-3 flex-shrink-0 rounded-full" style={{ backgroundColor: (e.project || projectsMap[e.milestones[0]?.projectId])?.color || "#94a3b8" }} />
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate text-sm font-medium">{describeTrashEntry(e)}</div>
+                      <div className="text-xs text-slate-500">
+                        {e.project ? "Project" : "Milestone"} · deleted {format(parseISO(e.deletedAt), "PPp")}
+                      </div>
+                    </div>
+                    <Button variant="secondary" onClick={() => restoreFromTrash(e)}>
+                      <RotateCcw className="mr-1 h-4 w-4" /> Restore
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => purgeFromTrash(e.id)} title="Delete permanently">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-slate-500">Trash stays in this browser and is not part of backups. Purged items cannot be recovered.</p>
+            <div className="flex justify-end gap-2">
+              {trash.length > 0 &&
+                (confirmEmptyTrash ? (
+                  <Button variant="destructive" onClick={() => setTrash([])}>Delete {trash.length} permanently</Button>
+                ) : (
+                  <Button variant="secondary" onClick={() => setConfirmEmptyTrash(true)}>Empty trash…</Button>
+                ))}
+              <Button variant="secondary" onClick={() => setShowTrash(false)}>Close</Button>
+            </div>
+          </div>
+        </Modal>
+      </AnimatePresence>
+
+      {/* Saved Views */}
+      <AnimatePresence>
+        <Modal open={showSavedViews} onClose={() => setShowSavedViews(false)} title="Saved views">
+          <div className="space-y-3">
+            <div>
+              <FormLabel label="Save the current view as" htmlFor="new-view-name" />
+              <div className="flex items-center gap-2">
+                <Input id="new-view-name" value={newViewName} onChange={(e) => setNewViewName(e.target.value)} onKeyDown={(e) => e.key === "Enter" && saveCurrentView()} placeholder="e.g., Q3 launches – risk only" />
+                <Button className="mt-1" onClick={saveCurrentView} disabled={!newViewName.trim()}>Save</Button>
+              </div>
+              <p className="mt-1 text-xs text-slate-500">Saves the view, zoom, filters and date. A view saved while showing today keeps opening on today.</p>
+            </div>
+            {savedViews.length === 0 ? (
+              <p className="text-sm text-slate-500">No saved views yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {savedViews.map((v) => (
+                  <li key={v.id} className="flex items-center gap-2">
+                    <Input value={v.name} onChange={(e) => setSavedViews((list) => list.map((x) => (x.id === v.id ? { ...x, name: e.target.value } : x)))} aria-label="View name" />
+                    <Button variant={v.id === activeSavedView?.id ? "default" : "secondary"} className="mt-1" onClick={() => openSavedView(v.id)}>
+                      {v.id === activeSavedView?.id ? "Showing" : "Open"}
+                    </Button>
+                    <Button variant="ghost" size="icon" className="mt-1" onClick={() => setSavedViews((list) => list.filter((x) => x.id !== v.id))} aria-label={`Delete ${v.name}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-slate-500">The address bar always holds the current view too, so you can bookmark or share it.</p>
+          </div>
+        </Modal>
+      </AnimatePresence>
+
+      {/* Recurring Move Scope */}
+      <AnimatePresence>
+        <Modal open={!!recurringMove} onClose={() => setRecurringMove(null)} title={`Move “${recurringMove?.series.title || ""}”`}>
+          {recurringMove && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                Move the {format(parseISO(recurringMove.occurrenceDate), "PP")} occurrence to <b>{format(parseISO(recurringMove.newStart), "PP")}</b>. Which occurrences should move?
+              </p>
+              <div className="flex flex-wrap justify-end gap-2 pt-1">
+                <Button variant="secondary" onClick={() => setRecurringMove(null)}>Cancel</Button>
+                {(Object.keys(RECURRENCE_SCOPE_LABELS) as RecurrenceScope[]).map((sc) => (
+                  <Button key={sc} onClick={() => applyRecurringMove(sc)}>{RECURRENCE_SCOPE_LABELS[sc]}</Button>
+                ))}
+              </div>
+            </div>
+          )}
+        </Modal>
+      </AnimatePresence>
+
+      {/* Cascade Reschedule Preview */}
+      <AnimatePresence>
+        <Modal open={!!reschedule} onClose={() => setReschedule(null)} title={`Move “${reschedule?.changed.title || ""}”`}>
+          {reschedule && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                New dates: <b>{format(parseISO(reschedule.changed.date), "PP")}</b>
+                {safeEnd(reschedule.changed.date, reschedule.changed.endDate) !== reschedule.changed.date && <> – <b>{format(parseISO(safeEnd(reschedule.changed.date, reschedule.changed.endDate)), "PP")}</b></>}
+              </p>
+              {reschedule.violations.length > 0 && (
+                <p className="rounded-md bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                  This starts before its dependency on {reschedule.violations.map((v) => `“${v.title}”`).join(", ")} allows.
+                </p>
+              )}
+              {reschedule.shifts.length > 0 && (
+                <div>
+                  <div className="text-xs text-slate-600">To keep dependencies intact, {reschedule.shifts.length} dependent milestone{reschedule.shifts.length === 1 ? "" : "s"} will also move:</div>
+                  <div className="mt-1 max-h-60 space-y-1 overflow-y-auto rounded-xl border bg-slate-50 p-2">
+                    {reschedule.shifts.map((sh) => (
+                      <div key={sh.id} className="rounded-lg bg-white px-2 py-1 text-xs">
+                        <div className="truncate font-medium">{sh.title}</div>
+                        <div className="text-slate-500">
+                          {format(parseISO(sh.from.date), "PP")} → <span className="text-slate-900">{format(parseISO(sh.to.date), "PP")}</span> (+{differenceInCalendarDays(parseISO(sh.to.date), parseISO(sh.from.date))}d)
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="flex justify-end gap-2 pt-1">
+                <Button variant="secondary" onClick={() => setReschedule(null)}>Cancel</Button>
+                <Button
+                  onClick={() => {
+                    applyReschedule(reschedule.changed, reschedule.shifts);
+                    if (reschedule.fromModal) setModalOpen(false);
+                    setReschedule(null);
+                  }}
+                >
+                  {reschedule.shifts.length ? `Move ${reschedule.shifts.length + 1} milestones` : "Move anyway"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </Modal>
+      </AnimatePresence>
+
+      {/* CSV Import Modal */}
+      <AnimatePresence>
+        <Modal open={!!csvImport} onClose={() => setCsvImport(null)} title={`Import ${csvImport?.fileName || "CSV"}`} wide>
+          {csvImport && (
+            <div className="space-y-3">
+              {csvImport.error && <p className="rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">{csvImport.error}</p>}
+              {csvImport.rows.length > 0 && (
+                <>
+                  <div className="grid grid-cols-2 gap-x-3 gap-y-2 md:grid-cols-4">
+                    {CSV_FIELDS.map((f) => (
+                      <div key={f}>
+                        <FormLabel label={`${f[0].toUpperCase()}${f.slice(1)} column`} required={f === "title" || f === "start"} />
+                        <Select value={String(csvImport.mapping[f])} onValueChange={(v) => setCsvImport({ ...csvImport, mapping: { ...csvImport.mapping, [f]: Number(v) } })}>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Column" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="-1" label="— none —">— none —</SelectItem>
+                            {csvImport.header.map((h, i) => (
+                              <SelectItem key={i} value={String(i)} label={h || `Column ${i + 1}`}>
+                                {h || `Column ${i + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <FormLabel label="Date format" />
+                      <Select value={csvImport.dateFormat} onValueChange={(v) => setCsvImport({ ...csvImport, dateFormat: v })}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Date format" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DATE_FORMATS.map((f) => (
+                            <SelectItem key={f} value={f} label={f}>{f}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <FormLabel label="Project for rows without one" />
+                      <Select value={csvImport.defaultProjectId} onValueChange={(v) => setCsvImport({ ...csvImport, defaultProjectId: v })}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select project" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="" label="— none —">— none —</SelectItem>
+                          {activeProjects.map((p) => (
+                            <SelectItem value={p.id} key={p.id} label={p.name} dotColor={p.color}>
+                              {p.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="text-xs text-slate-600">
+                    {csvPreview.results.filter((r) => r.milestone && !r.updates).length} new · {csvPreview.results.filter((r) => r.milestone && r.updates).length} updates ·{" "}
+                    <span className={csvPreview.results.some((r) => r.error) ? "text-red-600" : ""}>{csvPreview.results.filter((r) => r.error).length} with errors (skipped)</span>
+                    {csvPreview.newProjects.length > 0 && <> · new projects: {csvPreview.newProjects.join(", ")}</>}
+                  </div>
+                  <div className="max-h-72 space-y-1 overflow-y-auto rounded-xl border bg-slate-50 p-2">
+                    {csvPreview.results.map((r) => (
+                      <div key={r.line} className={`flex items-center justify-between gap-2 rounded-lg px-2 py-1 text-xs ${r.error ? "bg-red-50" : "bg-white"}`}>
+                        <div className="min-w-0">
+                          <div className="truncate font-medium">
+                            <span className="mr-2 text-slate-400">Row {r.line}</span>
+                            {r.milestone?.title || csvImport.rows[r.line - 2]?.[csvImport.mapping.title] || "(no title)"}
+                          </div>
+                          {r.error ? (
+                            <div className="text-red-700">{r.error}</div>
+                          ) : (
+                            <div className="text-slate-500">
+                              {r.milestone!.date}{r.milestone!.endDate && r.milestone!.endDate !== r.milestone!.date ? ` – ${r.milestone!.endDate}` : ""} · {r.projectName || projectsMap[csvImport.defaultProjectId]?.name || "existing project"}
+                            </div>
+                          )}
+                        </div>
+                        {!r.error && (
+                          <span className={`flex-shrink-0 rounded-full px-2 py-0.5 text-[10px] ${r.updates ? "bg-amber-100 text-amber-800" : "bg-emerald-100 text-emerald-800"}`}>{r.updates ? "Update" : "New"}</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+              <div className="flex justify-end gap-2 pt-1">
+                <Button variant="secondary" onClick={() => setCsvImport(null)}>Cancel</Button>
+                <Button onClick={confirmCSVImport} disabled={!csvPreview.results.some((r) => r.milestone)}>
+                  Import {csvPreview.results.filter((r) => r.milestone).length} row{csvPreview.results.filter((r) => r.milestone).length === 1 ? "" : "s"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </Modal>
+      </AnimatePresence>
+
+      {/* Backup Restore Modal */}
+      <AnimatePresence>
+        <Modal open={!!restore} onClose={() => setRestore(null)} title={`Restore ${restore?.fileName || "backup"}`}>
+          {restore && (
+            <div className="space-y-3">
+              {restore.error && <p className="rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">{restore.error}</p>}
+              {restore.result && (
+                <>
+                  <p className="text-sm">
+                    This replaces your current {projects.length} project{projects.length === 1 ? "" : "s"} and {milestones.length} milestone{milestones.length === 1 ? "" : "s"} with{" "}
+                    <b>{restore.result.projects.length}</b> project{restore.result.projects.length === 1 ? "" : "s"} and <b>{restore.result.milestones.length}</b> milestone{restore.result.milestones.length === 1 ? "" : "s"} from the backup.
+                  </p>
+                  {restore.result.quarantined.length > 0 && (
+                    <div className="rounded-md bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                      <div className="font-medium">{restore.result.quarantined.length} malformed record{restore.result.quarantined.length === 1 ? "" : "s"} will be quarantined:</div>
+                      <ul className="mt-1 max-h-32 list-disc overflow-y-auto pl-4">
+                        {restore.result.quarantined.map((q, i) => (
+                          <li key={i}>{q.kind}: {q.reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              )}
+              <div className="flex justify-end gap-2 pt-1">
+                <Button variant="secondary" onClick={() => setRestore(null)}>Cancel</Button>
+                <Button variant="destructive" onClick={confirmRestore} disabled={!restore.result}>Replace data</Button>
+              </div>
+            </div>
+          )}
+        </Modal>
+      </AnimatePresence>
+
+      {/* iCalendar Import Modal */}
+      <AnimatePresence>
+        <Modal open={!!icsImport} onClose={() => setIcsImport(null)} title={`Import ${icsImport?.fileName || "calendar"}`} wide>
+          {icsImport && (
+            <div className="space-y-3">
+              {icsImport.error && <p className="rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">{icsImport.error}</p>}
+              {icsImport.calendar && icsImport.calendar.events.length > 0 && (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <FormLabel label="Target project" required />
+                      <Select value={icsImport.target} onValueChange={(v) => setIcsImport({ ...icsImport, target: v })}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select project" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="new" label="+ New project">+ New project</SelectItem>
+                          {activeProjects.map((p) => (
+                            <SelectItem value={p.id} key={p.id} label={p.name} dotColor={p.color}>
+                              {p.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {icsImport.target === "new" && (
+                      <div>
+                        <FormLabel label="New project name" required />
+                        <Input value={icsImport.newProjectName} onChange={(e) => setIcsImport({ ...icsImport, newProjectName: e.target.value })} placeholder="e.g., Release trains" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="text-xs text-slate-600">
+                    {icsPreview.filter((r) => !r.existing).length} new · {icsPreview.filter((r) => r.existing).length} update existing milestones
+                  </div>
+                  <div className="max-h-72 space-y-1 overflow-y-auto rounded-xl border bg-slate-50 p-2">
+                    {icsPreview.map(({ ev, existing }, i) => (
+                      <div key={`${ev.uid}-${i}`} className="flex items-center justify-between gap-2 rounded-lg bg-white px-2 py-1 text-xs">
+                        <div className="min-w-0">
+                          <div className="truncate font-medium">{ev.title}</div>
+                          <div className="text-slate-500">
+                            {format(parseISO(ev.start), "PP")}{ev.end !== ev.start ? ` – ${format(parseISO(ev.end), "PP")}` : ""}
+                            {ev.startTime && ` · ${ev.startTime}${ev.endTime ? `–${ev.endTime}` : ""} ${ev.timeZone}`}
+                            {ev.recurrence && ` · ${describeRecurrence(ev.recurrence, ev.start)}`}
+                            {ev.categories.length > 0 && ` · ${ev.categories.map(normalizeLabel).join(", ")}`}
+                          </div>
+                        </div>
+                        <span className={`flex-shrink-0 rounded-full px-2 py-0.5 text-[10px] ${existing ? "bg-amber-100 text-amber-800" : "bg-emerald-100 text-emerald-800"}`}>
+                          {existing ? `Update · ${projectsMap[existing.projectId]?.name || "Unknown project"}` : "New"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+              <div className="flex justify-end gap-2 pt-1">
+                <Button variant="secondary" onClick={() => setIcsImport(null)}>Cancel</Button>
+                <Button onClick={confirmICSImport} disabled={!icsImport.calendar || icsImport.calendar.events.length === 0}>
+                  Import {icsPreview.length} event{icsPreview.length === 1 ? "" : "s"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </Modal>
+      </AnimatePresence>
+
+      {/* Server sync conflict */}
+      <AnimatePresence>
+        <Modal open={showConflicts && syncConflicts.length > 0} onClose={() => setShowConflicts(false)} title={`Sync conflict${syncConflicts.length > 1 ? ` (1 of ${syncConflicts.length})` : ""}`} wide>
+          {activeConflict && (
+            <div className="space-y-3 text-sm">
+              <p className="text-slate-600">
+                The {activeConflict.store === "projects" ? "project" : "milestone"} <span className="font-medium text-slate-900">“{conflictName(activeConflict.mine) || conflictName(activeConflict.theirs)}”</span> was changed here and on the server.
+                {!activeConflict.theirs && " The server copy has been deleted."}
+                {!activeConflict.mine && " You deleted it here."}
+              </p>
+              {conflictFieldList.length > 0 && (
+                <div className="overflow-hidden rounded-xl border">
+                  <div className="grid grid-cols-[110px_1fr_1fr] bg-slate-50 px-3 py-1.5 text-xs font-medium text-slate-600">
+                    <span>Field</span>
+                    <span>Mine</span>
+                    <span>Theirs</span>
+                  </div>
+                  {conflictFieldList.map((f) => {
+                    const mineSelected = conflictPicks.includes(f);
+                    const pick = (mine: boolean) => setConflictPicks((cur) => (mine ? [...cur.filter((x) => x !== f), f] : cur.filter((x) => x !== f)));
+                    return (
+                      <div key={f} className="grid grid-cols-[110px_1fr_1fr] items-start gap-2 border-t px-3 py-1.5 text-xs">
+                        <span className="font-medium">{f}</span>
+                        <label className="flex items-start gap-1.5 break-all">
+                          <input type="radio" name={`field-${f}`} checked={mineSelected} onChange={() => pick(true)} />
+                          {showConflictValue((activeConflict.mine as Record<string, unknown>)[f])}
+                        </label>
+                        <label className="flex items-start gap-1.5 break-all">
+                          <input type="radio" name={`field-${f}`} checked={!mineSelected} onChange={() => pick(false)} />
+                          {showConflictValue((activeConflict.theirs as Record<string, unknown>)[f])}
+                        </label>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              <div className="flex justify-end gap-2 pt-1">
+                <Button variant="secondary" onClick={() => resolveConflict(activeConflict, "theirs")}>Keep theirs</Button>
+                <Button variant="secondary" onClick={() => resolveConflict(activeConflict, "mine")}>Keep mine</Button>
+                {conflictFieldList.length > 0 && <Button onClick={() => resolveConflict(activeConflict, "merge")}>Merge fields</Button>}
+              </div>
+            </div>
+          )}
+        </Modal>
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {toast && (
+          <Toast
+            key={toast.id}
+            message={toast.message}
+            actionLabel={toast.undo ? "Undo" : undefined}
+            onAction={undo}
+            onClose={() => setToast(null)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
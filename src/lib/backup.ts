@@ -0,0 +1,274 @@
+import { isValid, parseISO } from "date-fns";
+import type { AppSettings, ChecklistItem, Dependency, Milestone, Project, Recurrence } from "./types";
+import { normalizeLabel } from "./milestones";
+import { isTime, isValidTimeZone } from "./timeZones";
+import { isStatus } from "./status";
+
+// -----------------------------
+// Schema versioning, migrations and validation
+// -----------------------------
+
+// Bump when the persisted Project/Milestone shape changes, and add a migration below
+export const SCHEMA_VERSION = 10;
+export const BACKUP_FORMAT = "project-calendar-backup";
+
+export type BackupDocument = {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  projects: Project[];
+  milestones: Milestone[];
+  settings: AppSettings;
+};
+
+// Records that failed validation are set aside instead of being dropped
+export type QuarantinedRecord = {
+  kind: "project" | "milestone" | "document";
+  reason: string;
+  record: unknown;
+  at: string; // ISO timestamp
+};
+
+export type LoadResult = {
+  projects: Project[];
+  milestones: Milestone[];
+  settings: AppSettings;
+  quarantined: QuarantinedRecord[];
+};
+
+// Untrusted data on its way through the migration pipeline
+export type VersionedData = {
+  schemaVersion: number;
+  projects: unknown[];
+  milestones: unknown[];
+  settings: Record<string, unknown>;
+};
+
+// A plain JSON object whose fields are still unchecked
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// MIGRATIONS[n] upgrades data from schema version n to n + 1
+const MIGRATIONS: Record<number, (d: VersionedData) => VersionedData> = {
+  // v0 -> v1: the unversioned pc_*_v1 arrays. Labels were not always normalized and endDate could be missing.
+  0: (d) => ({
+    ...d,
+    schemaVersion: 1,
+    milestones: d.milestones.map((m) =>
+      isObject(m)
+        ? {
+            ...m,
+            endDate: m.endDate ?? m.date,
+            labels: Array.isArray(m.labels) ? Array.from(new Set(m.labels.map((t: unknown) => normalizeLabel(String(t))).filter(Boolean))) : [],
+          }
+        : m
+    ),
+  }),
+  // v1 -> v2: milestones gain a dependency list
+  1: (d) => ({
+    ...d,
+    schemaVersion: 2,
+    milestones: d.milestones.map((m) => (isObject(m) ? { ...m, dependencies: Array.isArray(m.dependencies) ? m.dependencies : [] } : m)),
+  }),
+  // v2 -> v3: optional recurrence rule, explicit null for one-off milestones
+  2: (d) => ({
+    ...d,
+    schemaVersion: 3,
+    milestones: d.milestones.map((m) => (isObject(m) ? { ...m, recurrence: m.recurrence ?? null } : m)),
+  }),
+  // v3 -> v4: modification stamps for cross-tab merging; unknown for existing records
+  3: (d) => {
+    const stamp = (r: unknown) => (isObject(r) ? { ...r, updatedAt: r.updatedAt ?? null } : r);
+    return { ...d, schemaVersion: 4, projects: d.projects.map(stamp), milestones: d.milestones.map(stamp) };
+  },
+  // v4 -> v5: projects may use their own working calendar
+  4: (d) => ({
+    ...d,
+    schemaVersion: 5,
+    projects: d.projects.map((p) => (isObject(p) ? { ...p, calendarId: p.calendarId ?? null } : p)),
+  }),
+  // v5 -> v6: optional start/end times in a time zone; existing milestones are all-day
+  5: (d) => ({
+    ...d,
+    schemaVersion: 6,
+    milestones: d.milestones.map((m) => (isObject(m) ? { ...m, startTime: m.startTime ?? null, endTime: m.endTime ?? null, timeZone: m.timeZone ?? null } : m)),
+  }),
+  // v6 -> v7: status and percent complete; existing milestones start out planned
+  6: (d) => ({
+    ...d,
+    schemaVersion: 7,
+    milestones: d.milestones.map((m) => (isObject(m) ? { ...m, status: m.status ?? "planned", progress: m.progress ?? 0 } : m)),
+  }),
+  // v7 -> v8: projects gain a description, an owner and an archived flag
+  7: (d) => ({
+    ...d,
+    schemaVersion: 8,
+    projects: d.projects.map((p) => (isObject(p) ? { ...p, description: p.description ?? "", owner: p.owner ?? "", archived: p.archived ?? false } : p)),
+  }),
+  // v8 -> v9: projects may sit under a parent project; existing ones are top-level
+  8: (d) => ({
+    ...d,
+    schemaVersion: 9,
+    projects: d.projects.map((p) => (isObject(p) ? { ...p, parentId: p.parentId ?? null } : p)),
+  }),
+  // v9 -> v10: milestones gain a checklist; progress stays manual
+  9: (d) => ({
+    ...d,
+    schemaVersion: 10,
+    milestones: d.milestones.map((m) => (isObject(m) ? { ...m, checklist: Array.isArray(m.checklist) ? m.checklist : [], progressFromChecklist: m.progressFromChecklist ?? false } : m)),
+  }),
+};
+
+export function migrate(data: VersionedData): VersionedData {
+  if (data.schemaVersion > SCHEMA_VERSION) {
+    throw new Error(`Data uses schema v${data.schemaVersion}, but this app only understands up to v${SCHEMA_VERSION}.`);
+  }
+  let cur = data;
+  while (cur.schemaVersion < SCHEMA_VERSION) {
+    const step = MIGRATIONS[cur.schemaVersion];
+    if (!step) throw new Error(`No migration from schema v${cur.schemaVersion}.`);
+    cur = step(cur);
+  }
+  return cur;
+}
+
+const isISODate = (v: unknown): v is string => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v) && isValid(parseISO(v));
+
+const isTimestamp = (v: unknown): v is string | null | undefined => v == null || (typeof v === "string" && !Number.isNaN(Date.parse(v)));
+
+const isDependency = (d: unknown): d is Dependency =>
+  isObject(d) && typeof d.predecessorId === "string" && (d.type === "FS" || d.type === "SS") && typeof d.lagDays === "number" && Number.isFinite(d.lagDays);
+
+const isRecurrence = (r: unknown): r is Recurrence =>
+  isObject(r) &&
+  (r.freq === "daily" || r.freq === "weekly" || r.freq === "monthly") &&
+  typeof r.interval === "number" &&
+  Number.isInteger(r.interval) &&
+  r.interval >= 1 &&
+  (r.byWeekday == null || (Array.isArray(r.byWeekday) && r.byWeekday.every((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6))) &&
+  (r.monthlyMode == null || r.monthlyMode === "dayOfMonth" || r.monthlyMode === "nthWeekday") &&
+  (r.until == null || isISODate(r.until)) &&
+  (r.count == null || (typeof r.count === "number" && Number.isInteger(r.count) && r.count >= 1)) &&
+  (r.exdates == null || (Array.isArray(r.exdates) && r.exdates.every(isISODate)));
+
+const isChecklistItem = (v: unknown): v is ChecklistItem =>
+  isObject(v) &&
+  typeof v.id === "string" &&
+  typeof v.text === "string" &&
+  typeof v.done === "boolean" &&
+  (v.due == null || isISODate(v.due)) &&
+  (v.assignee == null || typeof v.assignee === "string");
+
+// Each validator returns the cleaned record, or a reason string when it is malformed
+export function validateProject(raw: unknown): Project | string {
+  if (!isObject(raw)) return "not an object";
+  if (typeof raw.id !== "string" || !raw.id) return "missing id";
+  if (typeof raw.name !== "string" || !raw.name.trim()) return "missing name";
+  if (typeof raw.color !== "string" || !/^#[0-9a-f]{3,8}$/i.test(raw.color)) return `invalid color "${String(raw.color)}"`;
+  if (raw.calendarId != null && typeof raw.calendarId !== "string") return "calendarId must be text";
+  if (raw.parentId != null && (typeof raw.parentId !== "string" || raw.parentId === raw.id)) return "invalid parentId";
+  if (raw.description != null && typeof raw.description !== "string") return "description must be text";
+  if (raw.owner != null && typeof raw.owner !== "string") return "owner must be text";
+  if (raw.archived != null && typeof raw.archived !== "boolean") return "archived must be true or false";
+  if (!isTimestamp(raw.updatedAt)) return `invalid updatedAt "${String(raw.updatedAt)}"`;
+  return { ...raw, id: raw.id, name: raw.name, color: raw.color, calendarId: raw.calendarId ?? null, parentId: raw.parentId ?? null, updatedAt: raw.updatedAt ?? null };
+}
+
+export function validateMilestone(raw: unknown): Milestone | string {
+  if (!isObject(raw)) return "not an object";
+  if (typeof raw.id !== "string" || !raw.id) return "missing id";
+  if (typeof raw.title !== "string" || !raw.title.trim()) return "missing title";
+  if (!isISODate(raw.date)) return `invalid start date "${String(raw.date)}"`;
+  if (raw.endDate != null && !isISODate(raw.endDate)) return `invalid end date "${String(raw.endDate)}"`;
+  if (typeof raw.projectId !== "string" || !raw.projectId) return "missing projectId";
+  if (raw.notes != null && typeof raw.notes !== "string") return "notes must be text";
+  if (raw.labels != null && !(Array.isArray(raw.labels) && raw.labels.every((t: unknown) => typeof t === "string"))) return "labels must be a list of text";
+  if (raw.dependencies != null && !(Array.isArray(raw.dependencies) && raw.dependencies.every(isDependency))) return "malformed dependencies";
+  if (raw.recurrence != null && !isRecurrence(raw.recurrence)) return "malformed recurrence";
+  if (raw.startTime != null && !isTime(raw.startTime)) return `invalid start time "${String(raw.startTime)}"`;
+  if (raw.endTime != null && (!isTime(raw.endTime) || raw.startTime == null)) return `invalid end time "${String(raw.endTime)}"`;
+  if (raw.timeZone != null && (typeof raw.timeZone !== "string" || !isValidTimeZone(raw.timeZone))) return `unknown time zone "${String(raw.timeZone)}"`;
+  if (raw.status != null && !isStatus(raw.status)) return `unknown status "${String(raw.status)}"`;
+  if (raw.progress != null && !(typeof raw.progress === "number" && raw.progress >= 0 && raw.progress <= 100)) return `invalid progress "${String(raw.progress)}"`;
+  if (raw.checklist != null && !(Array.isArray(raw.checklist) && raw.checklist.every(isChecklistItem))) return "malformed checklist";
+  if (raw.progressFromChecklist != null && typeof raw.progressFromChecklist !== "boolean") return "progressFromChecklist must be true or false";
+  if (!isTimestamp(raw.updatedAt)) return `invalid updatedAt "${String(raw.updatedAt)}"`;
+  return {
+    ...raw,
+    id: raw.id,
+    title: raw.title,
+    date: raw.date,
+    endDate: raw.endDate ?? null,
+    projectId: raw.projectId,
+    notes: raw.notes ?? "",
+    labels: raw.labels ?? [],
+    dependencies: raw.dependencies ?? [],
+    recurrence: raw.recurrence ?? null,
+    startTime: raw.startTime ?? null,
+    endTime: raw.endTime ?? null,
+    timeZone: raw.timeZone ?? null,
+    status: raw.status ?? "planned",
+    progress: raw.progress ?? 0,
+    checklist: raw.checklist ?? [],
+    progressFromChecklist: raw.progressFromChecklist ?? false,
+    updatedAt: raw.updatedAt ?? null,
+  };
+}
+
+function validateList<T extends { id: string }>(kind: "project" | "milestone", list: unknown[], validate: (raw: unknown) => T | string, quarantined: QuarantinedRecord[], at: string) {
+  const seen = new Set<string>();
+  const ok: T[] = [];
+  for (const raw of list) {
+    const res = validate(raw);
+    if (typeof res === "string") quarantined.push({ kind, reason: res, record: raw, at });
+    else if (seen.has(res.id)) quarantined.push({ kind, reason: `duplicate id ${res.id}`, record: raw, at });
+    else {
+      seen.add(res.id);
+      ok.push(res);
+    }
+  }
+  return ok;
+}
+
+// Migrate to the current schema, then validate record by record
+export function upgradeAndValidate(data: VersionedData): LoadResult {
+  const at = new Date().toISOString();
+  const migrated = migrate(data);
+  const quarantined: QuarantinedRecord[] = [];
+  const projects = validateList("project", migrated.projects, validateProject, quarantined, at);
+  const milestones = validateList("milestone", migrated.milestones, validateMilestone, quarantined, at);
+  return { projects, milestones, settings: migrated.settings as AppSettings, quarantined };
+}
+
+// -----------------------------
+// Backup documents
+// -----------------------------
+
+export const createBackup = (projects: Project[], milestones: Milestone[], settings: AppSettings): BackupDocument => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  projects,
+  milestones,
+  settings,
+});
+
+// Accepts current and older backups; throws on anything that isn't a backup at all
+export function parseBackup(text: string): LoadResult {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (!isObject(doc) || !Array.isArray(doc.projects) || !Array.isArray(doc.milestones)) {
+    throw new Error("This file is not a Project Calendar backup.");
+  }
+  if (doc.format != null && doc.format !== BACKUP_FORMAT) throw new Error(`Unknown backup format "${String(doc.format)}".`);
+  const schemaVersion = typeof doc.schemaVersion === "number" ? doc.schemaVersion : 0;
+  return upgradeAndValidate({
+    schemaVersion,
+    projects: doc.projects,
+    milestones: doc.milestones,
+    settings: isObject(doc.settings) ? doc.settings : {},
+  });
+}
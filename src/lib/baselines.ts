@@ -0,0 +1,72 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import type { AppSettings, Baseline, BaselineEntry, Milestone, Project } from "./types";
+import { safeEnd } from "./dates";
+
+// -----------------------------
+// Baselines & schedule variance
+// -----------------------------
+
+export function captureBaseline(project: Project, milestones: Milestone[], name: string, id: string, now = new Date()): Baseline {
+  return {
+    id,
+    projectId: project.id,
+    name,
+    capturedAt: now.toISOString(),
+    milestones: milestones
+      .filter((m) => m.projectId === project.id)
+      .map((m) => ({ id: m.id, title: m.title, date: m.date, endDate: safeEnd(m.date, m.endDate) })),
+  };
+}
+
+const isEntry = (e: BaselineEntry) => !!e && typeof e.id === "string" && typeof e.title === "string" && typeof e.date === "string" && typeof e.endDate === "string";
+
+// Baselines live in settings, so they travel with backups
+export const baselinesOf = (settings: AppSettings): Baseline[] =>
+  (Array.isArray(settings.baselines) ? settings.baselines : []).filter(
+    (b): b is Baseline =>
+      !!b && typeof b.id === "string" && typeof b.projectId === "string" && typeof b.name === "string" && typeof b.capturedAt === "string" && Array.isArray(b.milestones) && b.milestones.every(isEntry)
+  );
+
+export type VarianceRow = {
+  id: string;
+  title: string;
+  baseline: BaselineEntry;
+  current: { date: string; endDate: string };
+  startSlip: number; // days later (+) or earlier (−) than the baseline
+  endSlip: number;
+};
+
+export type VarianceReport = {
+  rows: VarianceRow[]; // in both, ordered by baseline start
+  added: Milestone[]; // new since the baseline
+  removed: BaselineEntry[]; // gone since the baseline
+  finishSlip: number | null; // change in the project's last end date; null when either side is empty
+};
+
+const slip = (from: string, to: string) => differenceInCalendarDays(parseISO(to), parseISO(from));
+
+const lastEnd = (ranges: { endDate: string }[]) => (ranges.length ? ranges.reduce((max, r) => (r.endDate > max ? r.endDate : max), ranges[0].endDate) : null);
+
+export function varianceReport(baseline: Baseline, milestones: Milestone[]): VarianceReport {
+  const current = new Map(milestones.filter((m) => m.projectId === baseline.projectId).map((m) => [m.id, m]));
+  const rows: VarianceRow[] = [];
+  const removed: BaselineEntry[] = [];
+  for (const b of baseline.milestones) {
+    const m = current.get(b.id);
+    if (!m) {
+      removed.push(b);
+      continue;
+    }
+    const now = { date: m.date, endDate: safeEnd(m.date, m.endDate) };
+    rows.push({ id: m.id, title: m.title, baseline: b, current: now, startSlip: slip(b.date, now.date), endSlip: slip(b.endDate, now.endDate) });
+  }
+  rows.sort((a, b) => a.baseline.date.localeCompare(b.baseline.date));
+  const inBaseline = new Set(baseline.milestones.map((b) => b.id));
+  const added = Array.from(current.values()).filter((m) => !inBaseline.has(m.id));
+  const before = lastEnd(baseline.milestones);
+  const after = lastEnd(Array.from(current.values()).map((m) => ({ endDate: safeEnd(m.date, m.endDate) })));
+  return { rows, added, removed, finishSlip: before && after ? slip(before, after) : null };
+}
+
+// "+3d", "−2d", "on time"
+export const describeSlip = (days: number) => (days > 0 ? `+${days}d` : days < 0 ? `−${-days}d` : "on time");
@@ -0,0 +1,35 @@
+import type { ChecklistItem, Milestone } from "./types";
+import { safeEnd } from "./dates";
+import { statusOf } from "./status";
+
+// -----------------------------
+// Milestone checklists
+// -----------------------------
+
+export function checklistCounts(m: Pick<Milestone, "checklist">) {
+  const items = m.checklist || [];
+  return { done: items.filter((i) => i.done).length, total: items.length };
+}
+
+// "3/7"; "" without a checklist
+export function describeChecklist(m: Pick<Milestone, "checklist">) {
+  const { done, total } = checklistCounts(m);
+  return total ? `${done}/${total}` : "";
+}
+
+// Items whose due date falls outside the milestone's own dates
+export const itemsOutsideRange = (items: ChecklistItem[], date: string, endDate?: string | null) =>
+  items.filter((i) => i.due && (i.due < date || i.due > safeEnd(date, endDate)));
+
+type Tracked = Pick<Milestone, "status" | "progress" | "checklist" | "progressFromChecklist">;
+
+// When completion follows the checklist: progress is the share of items done, ticking the first
+// one starts the milestone, the last one finishes it, and unticking reopens it. Cancelled stays.
+export function deriveFromChecklist<T extends Tracked>(m: T): T {
+  const { done, total } = checklistCounts(m);
+  if (!m.progressFromChecklist || !total) return m;
+  const status = statusOf(m);
+  const next =
+    status === "cancelled" ? status : done === total ? "done" : status === "done" || (status === "planned" && done > 0) ? "in_progress" : status;
+  return { ...m, status: next, progress: Math.round((done / total) * 100) };
+}
@@ -0,0 +1,91 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { Milestone } from "./types";
+import { durationDays } from "./dates";
+
+// -----------------------------
+// Critical path & slack (per project)
+// -----------------------------
+
+export type ScheduleInfo = {
+  earliestStart: string; // yyyy-MM-dd
+  latestStart: string; // yyyy-MM-dd, without pushing out the project end
+  slackDays: number; // total slack (float)
+  critical: boolean;
+};
+
+const EPOCH = parseISO("2000-01-01");
+const dayNum = (iso: string) => differenceInCalendarDays(parseISO(iso), EPOCH);
+const dayISO = (n: number) => format(addDays(EPOCH, n), "yyyy-MM-dd");
+
+// Kahn's algorithm over in-project edges; anything left on a cycle is appended last
+function topoOrder(items: Milestone[]) {
+  const ids = new Set(items.map((m) => m.id));
+  const indeg = new Map(items.map((m) => [m.id, (m.dependencies || []).filter((d) => ids.has(d.predecessorId)).length]));
+  const succ = new Map<string, string[]>();
+  for (const m of items) for (const d of m.dependencies || []) if (ids.has(d.predecessorId)) succ.set(d.predecessorId, [...(succ.get(d.predecessorId) || []), m.id]);
+  const queue = items.filter((m) => indeg.get(m.id) === 0).map((m) => m.id);
+  const order: string[] = [];
+  while (queue.length) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const s of succ.get(id) || []) {
+      indeg.set(s, indeg.get(s)! - 1);
+      if (indeg.get(s) === 0) queue.push(s);
+    }
+  }
+  const placed = new Set(order);
+  for (const m of items) if (!placed.has(m.id)) order.push(m.id);
+  return order;
+}
+
+// Forward pass from the planned dates, backward pass from the project's last finish.
+// Only dependencies between milestones of the same project count.
+export function analyzeProject(items: Milestone[]): Map<string, ScheduleInfo> {
+  const result = new Map<string, ScheduleInfo>();
+  if (!items.length) return result;
+  const byId = new Map(items.map((m) => [m.id, m]));
+  const order = topoOrder(items);
+  const dur = new Map(items.map((m) => [m.id, durationDays(m.date, m.endDate)]));
+  const es = new Map<string, number>();
+  for (const id of order) {
+    const m = byId.get(id)!;
+    let start = dayNum(m.date);
+    for (const d of m.dependencies || []) {
+      if (!es.has(d.predecessorId)) continue;
+      const pStart = es.get(d.predecessorId)!;
+      const req = d.type === "FS" ? pStart + dur.get(d.predecessorId)! + d.lagDays : pStart + d.lagDays;
+      start = Math.max(start, req);
+    }
+    es.set(id, start);
+  }
+  const projectEnd = Math.max(...order.map((id) => es.get(id)! + dur.get(id)! - 1));
+
+  const ls = new Map<string, number>();
+  for (const id of [...order].reverse()) ls.set(id, projectEnd - dur.get(id)! + 1);
+  // Tighten each predecessor against its successors, walking successors first
+  for (const id of [...order].reverse()) {
+    const m = byId.get(id)!;
+    for (const d of m.dependencies || []) {
+      if (!ls.has(d.predecessorId)) continue;
+      const bound = d.type === "FS" ? ls.get(id)! - d.lagDays - dur.get(d.predecessorId)! : ls.get(id)! - d.lagDays;
+      ls.set(d.predecessorId, Math.min(ls.get(d.predecessorId)!, bound));
+    }
+  }
+
+  for (const id of order) {
+    const slack = ls.get(id)! - es.get(id)!;
+    result.set(id, { earliestStart: dayISO(es.get(id)!), latestStart: dayISO(ls.get(id)!), slackDays: slack, critical: slack <= 0 });
+  }
+  return result;
+}
+
+export function analyzeSchedules(milestones: Milestone[]): Map<string, ScheduleInfo> {
+  const byProject = new Map<string, Milestone[]>();
+  for (const m of milestones) byProject.set(m.projectId, [...(byProject.get(m.projectId) || []), m]);
+  const all = new Map<string, ScheduleInfo>();
+  for (const items of byProject.values()) analyzeProject(items).forEach((v, k) => all.set(k, v));
+  return all;
+}
+
+export const describeSlack = (info?: ScheduleInfo) =>
+  !info ? "" : info.critical ? "critical path" : `${info.slackDays}d slack`;
@@ -0,0 +1,154 @@
+import { addDays, format, isValid, parse, parseISO } from "date-fns";
+import type { Milestone, Project } from "./types";
+import { durationDays, safeEnd } from "./dates";
+import { normalizeLabel } from "./milestones";
+
+// -----------------------------
+// CSV read / write (RFC 4180)
+// -----------------------------
+
+const quoteCell = (v: string) => (/[",\r\n;\t]/.test(v) || /^\s|\s$/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+
+export const toCSV = (rows: string[][]) => rows.map((r) => r.map(quoteCell).join(",")).join("\r\n") + "\r\n";
+
+// Spreadsheets in some locales save with ";" or tabs, so sniff the header line
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const [best] = [",", ";", "\t"].map((d) => ({ d, n: firstLine.split(d).length - 1 })).sort((a, b) => b.n - a.n);
+  return best.n > 0 ? best.d : ",";
+};
+
+export function parseCSV(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const delim = detectDelimiter(src);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === "") inQuotes = true;
+    else if (ch === delim) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += ch;
+  }
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Drop fully blank lines (trailing newline, spacer rows)
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+// -----------------------------
+// Milestone <-> CSV mapping
+// -----------------------------
+
+export const CSV_FIELDS = ["title", "start", "end", "project", "labels", "notes", "id"] as const;
+export type CSVField = (typeof CSV_FIELDS)[number];
+export type CSVMapping = Record<CSVField, number>; // column index, -1 when unmapped
+
+export function milestonesToCSV(milestones: Milestone[], projectsMap: Record<string, Project>) {
+  const rows = milestones.map((m) => [
+    m.title,
+    m.date,
+    safeEnd(m.date, m.endDate),
+    projectsMap[m.projectId]?.name || "",
+    (m.labels || []).join(", "),
+    m.notes || "",
+    m.id,
+  ]);
+  return toCSV([[...CSV_FIELDS], ...rows]);
+}
+
+const HEADER_ALIASES: Record<CSVField, string[]> = {
+  title: ["title", "name", "milestone", "summary", "task"],
+  start: ["start", "start date", "date", "begin", "from"],
+  end: ["end", "end date", "due", "due date", "finish", "to"],
+  project: ["project", "project name", "workstream"],
+  labels: ["labels", "label", "tags", "tag", "categories"],
+  notes: ["notes", "note", "description", "details", "comments"],
+  id: ["id", "uid", "milestone id"],
+};
+
+export function guessMapping(header: string[]): CSVMapping {
+  const norm = header.map((h) => h.trim().toLowerCase().replace(/[_-]+/g, " "));
+  const mapping = {} as CSVMapping;
+  for (const f of CSV_FIELDS) mapping[f] = norm.findIndex((h) => HEADER_ALIASES[f].includes(h));
+  return mapping;
+}
+
+export const DATE_FORMATS = ["yyyy-MM-dd", "M/d/yyyy", "d/M/yyyy", "d.M.yyyy", "yyyy/M/d", "d-M-yyyy", "M/d/yy", "d/M/yy"];
+
+// Years outside this window are almost always a wrong format guess ("1/2/25" read as year 25)
+export const parseDateWith = (value: string, fmt: string) => {
+  const d = parse(value.trim(), fmt, new Date(2000, 0, 1));
+  return isValid(d) && d.getFullYear() >= 1900 && d.getFullYear() < 2200 ? format(d, "yyyy-MM-dd") : null;
+};
+
+// First format that parses every non-empty sample wins; ISO is tried first
+export function detectDateFormat(samples: string[]) {
+  const values = samples.map((s) => s.trim()).filter(Boolean);
+  return DATE_FORMATS.find((f) => values.every((v) => parseDateWith(v, f))) || DATE_FORMATS[0];
+}
+
+export type CSVRowResult = {
+  line: number; // spreadsheet row number (the header is row 1)
+  milestone?: Omit<Milestone, "projectId">;
+  projectName: string; // empty when the default project applies
+  error?: string;
+  updates: boolean; // id matches an existing milestone
+};
+
+export function mapCSVRows(rows: string[][], mapping: CSVMapping, dateFormat: string, existing: Map<string, Milestone>, hasDefaultProject: boolean): CSVRowResult[] {
+  const cell = (r: string[], f: CSVField) => (mapping[f] >= 0 ? (r[mapping[f]] ?? "").trim() : "");
+  return rows.map((r, i) => {
+    const line = i + 2;
+    const title = cell(r, "title");
+    const projectName = cell(r, "project");
+    const id = cell(r, "id");
+    const current = id ? existing.get(id) : undefined;
+    const base = { line, projectName, updates: !!current };
+    if (!title) return { ...base, error: "Missing title" };
+    const startRaw = cell(r, "start");
+    const start = startRaw ? parseDateWith(startRaw, dateFormat) : null;
+    if (!start) return { ...base, error: startRaw ? `Invalid start date "${startRaw}" (expected ${dateFormat})` : "Missing start date" };
+    const endRaw = cell(r, "end");
+    // Without an end column an updated milestone keeps its length
+    const end = endRaw
+      ? parseDateWith(endRaw, dateFormat)
+      : current && mapping.end < 0
+        ? format(addDays(parseISO(start), durationDays(current.date, current.endDate) - 1), "yyyy-MM-dd")
+        : start;
+    if (!end) return { ...base, error: `Invalid end date "${endRaw}" (expected ${dateFormat})` };
+    if (parseISO(end) < parseISO(start)) return { ...base, error: `End date ${end} is before start date ${start}` };
+    if (!projectName && !base.updates && !hasDefaultProject) return { ...base, error: "Unknown project (no project column and no default project)" };
+    const labels = Array.from(new Set(cell(r, "labels").split(/[,;|]/).map(normalizeLabel).filter(Boolean)));
+    // Updates leave out the fields of unmapped columns, so re-importing a partial sheet keeps what's there
+    const skip = (f: CSVField) => base.updates && mapping[f] < 0;
+    return {
+      ...base,
+      milestone: {
+        id,
+        title,
+        date: start,
+        endDate: end,
+        ...(skip("notes") ? {} : { notes: cell(r, "notes") }),
+        ...(skip("labels") ? {} : { labels }),
+      },
+    };
+  });
+}
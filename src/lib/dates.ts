@@ -0,0 +1,15 @@
+import { parseISO, differenceInCalendarDays } from "date-fns";
+
+// -----------------------------
+// Date helpers for yyyy-MM-dd milestone ranges
+// -----------------------------
+
+export const safeEnd = (startISO: string, endISO?: string | null) => {
+  if (!endISO) return startISO;
+  const s = parseISO(startISO);
+  const e = parseISO(endISO);
+  return e < s ? startISO : endISO; // ensure end >= start
+};
+
+export const durationDays = (startISO: string, endISO?: string | null) =>
+  differenceInCalendarDays(parseISO(safeEnd(startISO, endISO)), parseISO(startISO)) + 1; // inclusive
@@ -0,0 +1,143 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { Dependency, Milestone, WorkCalendar } from "./types";
+import { durationDays, safeEnd } from "./dates";
+import { shiftKeepingWorkingDays } from "./workCalendar";
+
+// -----------------------------
+// Milestone dependencies & cascade rescheduling
+// -----------------------------
+
+export const DEPENDENCY_TYPE_LABELS: Record<Dependency["type"], string> = {
+  FS: "Finish → Start",
+  SS: "Start → Start",
+};
+
+export type Shift = {
+  id: string;
+  title: string;
+  from: { date: string; endDate: string };
+  to: { date: string; endDate: string };
+};
+
+const iso = (d: Date) => format(d, "yyyy-MM-dd");
+
+// Earliest start a dependency allows for its successor
+export const constraintStart = (dep: Dependency, pred: Milestone) =>
+  dep.type === "FS"
+    ? iso(addDays(parseISO(safeEnd(pred.date, pred.endDate)), 1 + dep.lagDays))
+    : iso(addDays(parseISO(pred.date), dep.lagDays));
+
+// Latest required start across all predecessors, or null when unconstrained
+export function requiredStart(m: Milestone, byId: Map<string, Milestone>) {
+  let req: string | null = null;
+  for (const dep of m.dependencies || []) {
+    const pred = byId.get(dep.predecessorId);
+    if (!pred) continue;
+    const s = constraintStart(dep, pred);
+    if (!req || s > req) req = s;
+  }
+  return req;
+}
+
+// Predecessors whose constraint the milestone currently breaks
+export const violatedPredecessors = (m: Milestone, byId: Map<string, Milestone>) =>
+  (m.dependencies || [])
+    .map((dep) => ({ dep, pred: byId.get(dep.predecessorId) }))
+    .filter((x): x is { dep: Dependency; pred: Milestone } => !!x.pred && m.date < constraintStart(x.dep, x.pred))
+    .map((x) => x.pred);
+
+// Would making `successorId` depend on `predecessorId` close a loop?
+export function wouldCreateCycle(milestones: Milestone[], successorId: string, predecessorId: string) {
+  if (successorId === predecessorId) return true;
+  const byId = new Map(milestones.map((m) => [m.id, m]));
+  const seen = new Set<string>();
+  const stack = [predecessorId];
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (id === successorId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const dep of byId.get(id)?.dependencies || []) stack.push(dep.predecessorId);
+  }
+  return false;
+}
+
+// Returns the ids on a dependency cycle, or null when the graph is acyclic
+export function findCycle(milestones: Milestone[]): string[] | null {
+  const byId = new Map(milestones.map((m) => [m.id, m]));
+  const state = new Map<string, 1 | 2>(); // 1 = on stack, 2 = done
+  const path: string[] = [];
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 2) return null;
+    if (state.get(id) === 1) return path.slice(path.indexOf(id));
+    state.set(id, 1);
+    path.push(id);
+    for (const dep of byId.get(id)?.dependencies || []) {
+      if (!byId.has(dep.predecessorId)) continue;
+      const cycle = visit(dep.predecessorId);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 2);
+    return null;
+  };
+  for (const m of milestones) {
+    const cycle = visit(m.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+// Push dependents later until every constraint holds again. `changed` holds the
+// already-updated milestones; the result lists every *other* milestone that moves.
+// With `calendarOf` (working-day durations), pushed milestones start on a working day of their
+// own calendar and keep their number of working days.
+export function cascadeShifts(milestones: Milestone[], changed: Milestone[], calendarOf?: (m: Milestone) => WorkCalendar): Shift[] {
+  const byId = new Map(milestones.map((m) => [m.id, m]));
+  changed.forEach((m) => byId.set(m.id, m));
+  const dependents = new Map<string, string[]>();
+  for (const m of byId.values()) {
+    for (const dep of m.dependencies || []) {
+      if (!dependents.has(dep.predecessorId)) dependents.set(dep.predecessorId, []);
+      dependents.get(dep.predecessorId)!.push(m.id);
+    }
+  }
+  const originals = new Map(milestones.map((m) => [m.id, m]));
+  const changedIds = new Set(changed.map((m) => m.id));
+  const moved = new Set<string>();
+  const queue = changed.map((m) => m.id);
+  // Bounded by the graph size; a cycle that slipped through validation can't spin forever
+  let guard = byId.size * byId.size + 1;
+  while (queue.length && guard-- > 0) {
+    const id = queue.shift()!;
+    for (const depId of dependents.get(id) || []) {
+      const d = byId.get(depId)!;
+      const req = requiredStart(d, byId);
+      if (!req || d.date >= req) continue;
+      const range = calendarOf
+        ? shiftKeepingWorkingDays(calendarOf(d), d.date, d.endDate, parseISO(req))
+        : { date: req, endDate: iso(addDays(parseISO(req), durationDays(d.date, d.endDate) - 1)) };
+      byId.set(depId, { ...d, ...range });
+      if (!changedIds.has(depId)) moved.add(depId);
+      queue.push(depId);
+    }
+  }
+  return Array.from(moved).map((id) => {
+    const before = originals.get(id)!;
+    const after = byId.get(id)!;
+    return {
+      id,
+      title: after.title,
+      from: { date: before.date, endDate: safeEnd(before.date, before.endDate) },
+      to: { date: after.date, endDate: safeEnd(after.date, after.endDate) },
+    };
+  });
+}
+
+// Drop dependencies on milestones that no longer exist
+export const pruneDependencies = (milestones: Milestone[]) => {
+  const ids = new Set(milestones.map((m) => m.id));
+  return milestones.map((m) =>
+    m.dependencies && m.dependencies.some((d) => !ids.has(d.predecessorId)) ? { ...m, dependencies: m.dependencies.filter((d) => ids.has(d.predecessorId)) } : m
+  );
+};
@@ -0,0 +1,35 @@
+import { addDays, addMonths, addYears, endOfMonth, endOfWeek, startOfMonth, startOfWeek } from "date-fns";
+
+// -----------------------------
+// Keyboard navigation in the month grid (WAI-ARIA grid and date picker keys)
+// -----------------------------
+//
+//   ←/→ a day, ↑/↓ a week, Home/End start/end of the week (Ctrl: of the month),
+//   PageUp/PageDown a month (Shift: a year)
+
+export type GridKey = Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey" | "shiftKey">;
+
+// The day a key moves focus to, or null when it isn't a navigation key
+export function gridKeyTarget(e: GridKey, day: Date): Date | null {
+  const mod = e.ctrlKey || e.metaKey;
+  switch (e.key) {
+    case "ArrowLeft":
+      return addDays(day, -1);
+    case "ArrowRight":
+      return addDays(day, 1);
+    case "ArrowUp":
+      return addDays(day, -7);
+    case "ArrowDown":
+      return addDays(day, 7);
+    case "Home":
+      return mod ? startOfMonth(day) : startOfWeek(day, { weekStartsOn: 0 });
+    case "End":
+      return mod ? endOfMonth(day) : endOfWeek(day, { weekStartsOn: 0 });
+    case "PageUp":
+      return e.shiftKey ? addYears(day, -1) : addMonths(day, -1);
+    case "PageDown":
+      return e.shiftKey ? addYears(day, 1) : addMonths(day, 1);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,73 @@
+import type { Milestone, Project } from "./types";
+import { isOverdue } from "./status";
+
+// -----------------------------
+// Project hierarchy: programs and portfolios are projects with sub-projects
+// -----------------------------
+
+export type ProjectNode = {
+  project: Project;
+  depth: number;
+  childCount: number;
+  ancestors: string[]; // ids from the top-level project down to the parent
+};
+
+// Depth-first, children right after their parent in list order. A project whose parent isn't in
+// the list (deleted, archived) is top-level; so is one caught in a parent cycle from bad data.
+export function projectTree(projects: Project[]): ProjectNode[] {
+  const ids = new Set(projects.map((p) => p.id));
+  const children = new Map<string, Project[]>();
+  for (const p of projects) {
+    if (p.parentId && p.parentId !== p.id && ids.has(p.parentId)) children.set(p.parentId, [...(children.get(p.parentId) || []), p]);
+  }
+  const out: ProjectNode[] = [];
+  const seen = new Set<string>();
+  const visit = (p: Project, ancestors: string[]) => {
+    if (seen.has(p.id)) return;
+    seen.add(p.id);
+    const kids = children.get(p.id) || [];
+    out.push({ project: p, depth: ancestors.length, childCount: kids.length, ancestors });
+    for (const k of kids) visit(k, [...ancestors, p.id]);
+  };
+  for (const p of projects) if (!p.parentId || !ids.has(p.parentId)) visit(p, []);
+  for (const p of projects) visit(p, []);
+  return out;
+}
+
+// The project and everything below it
+export function subtreeIds(projects: Project[], id: string): Set<string> {
+  const out = new Set([id]);
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const p of projects) {
+      if (p.parentId && out.has(p.parentId) && !out.has(p.id)) {
+        out.add(p.id);
+        grew = true;
+      }
+    }
+  }
+  return out;
+}
+
+// A project can't be moved under itself or one of its own sub-projects
+export const canNestUnder = (projects: Project[], id: string, parentId: string) => !subtreeIds(projects, id).has(parentId);
+
+export type RollUp = { milestones: number; overdue: number };
+
+// Milestone and overdue counts per project, each including all of its sub-projects
+export function rollUpCounts(projects: Project[], milestones: Milestone[], today: string): Map<string, RollUp> {
+  const own = new Map<string, RollUp>();
+  for (const m of milestones) {
+    const c = own.get(m.projectId) || { milestones: 0, overdue: 0 };
+    own.set(m.projectId, { milestones: c.milestones + 1, overdue: c.overdue + (isOverdue(m, today) ? 1 : 0) });
+  }
+  const out = new Map<string, RollUp>();
+  for (const { project, ancestors } of projectTree(projects)) {
+    const c = own.get(project.id);
+    for (const id of [project.id, ...ancestors]) {
+      const total = out.get(id) || { milestones: 0, overdue: 0 };
+      out.set(id, c ? { milestones: total.milestones + c.milestones, overdue: total.overdue + c.overdue } : total);
+    }
+  }
+  return out;
+}
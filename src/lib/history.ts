@@ -0,0 +1,75 @@
+import type { Milestone, Project } from "./types";
+
+// -----------------------------
+// Undo / redo over project + milestone snapshots
+// -----------------------------
+
+export type Snapshot = { projects: Project[]; milestones: Milestone[] };
+
+export type HistoryEntry = {
+  snapshot: Snapshot; // state before the change
+  label: string; // e.g. Delete “Kickoff”
+  at: number; // ms timestamp of the latest change folded into this entry
+};
+
+export type History = { past: HistoryEntry[]; future: HistoryEntry[] };
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+const HISTORY_LIMIT = 100;
+// Repeats of the same edit closer together than this become one undo step (arrow-key nudges, rapid drags)
+const COALESCE_MS = 1000;
+
+// Name a change from what actually differs between two snapshots
+export function describeChange(before: Snapshot, after: Snapshot): { label: string; destructive: boolean } {
+  const diff = <T extends { id: string }>(a: T[], b: T[]) => {
+    const aIds = new Map(a.map((x) => [x.id, x]));
+    const bIds = new Map(b.map((x) => [x.id, x]));
+    return {
+      added: b.filter((x) => !aIds.has(x.id)),
+      removed: a.filter((x) => !bIds.has(x.id)),
+      changed: b.filter((x) => aIds.has(x.id) && aIds.get(x.id) !== x),
+    };
+  };
+  const p = diff(before.projects, after.projects);
+  const m = diff(before.milestones, after.milestones);
+  const n = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+  if (p.removed.length) {
+    const name = p.removed.length === 1 ? `project “${p.removed[0].name}”` : n(p.removed.length, "project");
+    return { label: `Delete ${name}${m.removed.length ? ` and ${n(m.removed.length, "milestone")}` : ""}`, destructive: true };
+  }
+  if (p.added.length) return { label: p.added.length === 1 && !m.added.length ? `Add project “${p.added[0].name}”` : `Import ${n(m.added.length + m.changed.length, "milestone")}`, destructive: false };
+  if (m.removed.length && !m.added.length) return { label: m.removed.length === 1 ? `Delete “${m.removed[0].title}”` : `Delete ${n(m.removed.length, "milestone")}`, destructive: true };
+  if (m.added.length && !m.removed.length && !m.changed.length) return { label: m.added.length === 1 ? `Add “${m.added[0].title}”` : `Add ${n(m.added.length, "milestone")}`, destructive: false };
+  if (m.changed.length === 1 && !m.added.length && !m.removed.length) return { label: `Edit “${m.changed[0].title}”`, destructive: false };
+  if (p.changed.length && !m.added.length && !m.removed.length && !m.changed.length) return { label: p.changed.length === 1 ? `Edit project “${p.changed[0].name}”` : `Edit ${n(p.changed.length, "project")}`, destructive: false };
+  return { label: `Update ${n(m.added.length + m.removed.length + m.changed.length, "milestone")}`, destructive: m.removed.length > 0 };
+}
+
+export function recordChange(history: History, before: Snapshot, label: string, at: number): History {
+  const last = history.past[history.past.length - 1];
+  // Keep the oldest snapshot so undo jumps back over the whole burst
+  if (last && last.label === label && at - last.at < COALESCE_MS) return { past: [...history.past.slice(0, -1), { ...last, at }], future: [] };
+  return { past: [...history.past, { snapshot: before, label, at }].slice(-HISTORY_LIMIT), future: [] };
+}
+
+// Both return the snapshot to restore, or null when there is nothing to step to
+export function undoStep(history: History, current: Snapshot) {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    snapshot: entry.snapshot,
+    label: entry.label,
+    history: { past: history.past.slice(0, -1), future: [...history.future, { ...entry, snapshot: current }] },
+  };
+}
+
+export function redoStep(history: History, current: Snapshot) {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    snapshot: entry.snapshot,
+    label: entry.label,
+    history: { past: [...history.past, { ...entry, snapshot: current }], future: history.future.slice(0, -1) },
+  };
+}
@@ -0,0 +1,333 @@
+import { format, addDays, getDay, isValid, parseISO } from "date-fns";
+import type { Milestone, Project, Recurrence } from "./types";
+import { safeEnd } from "./dates";
+import { nthWeekdayOf } from "./recurrence";
+import { dateInZone, isValidTimeZone, milestoneInstants, timeInZone, viewerTimeZone, zonedTimeToInstant } from "./timeZones";
+
+// -----------------------------
+// iCalendar (RFC 5545) export
+// -----------------------------
+
+const PRODID = "-//Project Calendar//Milestones//EN";
+const UID_DOMAIN = "project-calendar";
+
+// TEXT values must escape backslash, semicolon, comma and newlines (RFC 5545 §3.3.11)
+export const escapeICSText = (s: string) =>
+  s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Content lines longer than 75 octets are folded with CRLF + a single space
+export const foldICSLine = (line: string) => {
+  const enc = new TextEncoder();
+  const parts: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const n = enc.encode(ch).length;
+    // continuation lines lose one octet to the leading space
+    const limit = parts.length ? 74 : 75;
+    if (bytes + n > limit) {
+      parts.push(cur);
+      cur = "";
+      bytes = 0;
+    }
+    cur += ch;
+    bytes += n;
+  }
+  parts.push(cur);
+  return parts.join("\r\n ");
+};
+
+const icsDate = (iso: string) => iso.replace(/-/g, "");
+
+const icsStamp = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+export const milestoneUID = (id: string) => `${id}@${UID_DOMAIN}`;
+
+const ICS_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// RFC 5545 allows UNTIL or COUNT, not both; UNTIL wins as in describeRecurrence.
+// `until` writes the UNTIL value in the form DTSTART calls for.
+export function recurrenceToRRULE(r: Recurrence, startISO: string, until: (dateISO: string) => string) {
+  const parts = [`FREQ=${r.freq.toUpperCase()}`];
+  if (r.interval > 1) parts.push(`INTERVAL=${r.interval}`);
+  if (r.freq === "weekly" && r.byWeekday?.length) parts.push(`BYDAY=${[...r.byWeekday].sort((a, b) => a - b).map((d) => ICS_WEEKDAYS[d]).join(",")}`);
+  if (r.freq === "monthly" && r.monthlyMode === "nthWeekday") {
+    const start = parseISO(startISO);
+    const nth = nthWeekdayOf(start);
+    parts.push(`BYDAY=${nth === 5 ? -1 : nth}${ICS_WEEKDAYS[getDay(start)]}`);
+  }
+  if (r.until) parts.push(`UNTIL=${until(r.until)}`);
+  else if (r.count) parts.push(`COUNT=${r.count}`);
+  return `RRULE:${parts.join(";")}`;
+}
+
+// Local date-time in a TZID value: 2025-03-01 + 09:30 -> 20250301T093000
+const icsLocal = (dateISO: string, time: string) => `${icsDate(dateISO)}T${time.replace(":", "")}00`;
+
+// All-day event: DTEND is the exclusive day after the inclusive end date. Timed milestones
+// are written as UTC instants, which every client converts to its own zone; a repeating one is
+// written in its own zone instead, so it repeats on its local weekday and keeps its time across
+// DST changes.
+export const milestoneToVEvent = (m: Milestone, project: Project | undefined, stamp: Date) => {
+  const end = safeEnd(m.date, m.endDate);
+  const timed = milestoneInstants(m);
+  const r = m.recurrence;
+  const tz = m.timeZone || viewerTimeZone();
+  let dates: string[];
+  if (timed && r) dates = [`DTSTART;TZID=${tz}:${icsLocal(m.date, m.startTime!)}`, `DTEND;TZID=${tz}:${icsLocal(end, m.endTime || m.startTime!)}`];
+  else if (timed) dates = [`DTSTART:${icsStamp(timed.start)}`, `DTEND:${icsStamp(timed.end)}`];
+  else dates = [`DTSTART;VALUE=DATE:${icsDate(m.date)}`, `DTEND;VALUE=DATE:${format(addDays(parseISO(end), 1), "yyyyMMdd")}`];
+  if (r) {
+    // UNTIL is a UTC instant when DTSTART has a time; exceptions use DTSTART's own form
+    dates.push(recurrenceToRRULE(r, m.date, (d) => (timed ? icsStamp(zonedTimeToInstant(d, m.startTime!, tz)) : icsDate(d))));
+    if (r.exdates?.length) {
+      dates.push(timed ? `EXDATE;TZID=${tz}:${r.exdates.map((d) => icsLocal(d, m.startTime!)).join(",")}` : `EXDATE;VALUE=DATE:${r.exdates.map(icsDate).join(",")}`);
+    }
+  }
+  const lines = ["BEGIN:VEVENT", `UID:${milestoneUID(m.id)}`, `DTSTAMP:${icsStamp(stamp)}`, ...dates, `SUMMARY:${escapeICSText(m.title)}`];
+  const description = [project ? `Project: ${project.name}` : "", m.notes || ""].filter(Boolean).join("\n\n");
+  if (description) lines.push(`DESCRIPTION:${escapeICSText(description)}`);
+  if (m.labels && m.labels.length) lines.push(`CATEGORIES:${m.labels.map(escapeICSText).join(",")}`);
+  if (project) {
+    lines.push(`X-PC-PROJECT:${escapeICSText(project.name)}`);
+    lines.push(`X-PC-PROJECT-ID:${project.id}`);
+  }
+  lines.push("TRANSP:TRANSPARENT", "END:VEVENT");
+  return lines;
+};
+
+export function milestonesToICS(milestones: Milestone[], projectsMap: Record<string, Project>, calendarName = "Project Calendar") {
+  const stamp = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICSText(calendarName)}`,
+  ];
+  for (const m of milestones) lines.push(...milestoneToVEvent(m, projectsMap[m.projectId], stamp));
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICSLine).join("\r\n") + "\r\n";
+}
+
+// -----------------------------
+// iCalendar (RFC 5545) import
+// -----------------------------
+
+export type ICSEvent = {
+  uid: string;
+  title: string;
+  start: string; // yyyy-MM-dd
+  end: string; // yyyy-MM-dd (inclusive)
+  startTime: string | null; // HH:mm in timeZone; null for all-day events
+  endTime: string | null;
+  timeZone: string | null;
+  recurrence: Recurrence | null; // from RRULE/EXDATE; yearly and other rules import as one event
+  notes: string;
+  categories: string[];
+  projectName?: string; // X-PC-PROJECT, present on files exported by this app
+};
+
+export type ICSCalendar = {
+  name: string;
+  events: ICSEvent[];
+};
+
+type ContentLine = { name: string; params: Record<string, string>; value: string };
+
+// Continuation lines start with a single space or tab (RFC 5545 §3.1)
+const unfold = (text: string) => text.replace(/\r?\n[ \t]/g, "");
+
+export const unescapeICSText = (s: string) =>
+  s.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+
+// Split on unescaped commas (CATEGORIES and other multi-valued TEXT)
+function splitICSList(s: string) {
+  const out: string[] = [];
+  let cur = "";
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === "\\" && i + 1 < s.length) {
+      cur += s[i] + s[i + 1];
+      i++;
+    } else if (s[i] === ",") {
+      out.push(cur);
+      cur = "";
+    } else cur += s[i];
+  }
+  out.push(cur);
+  return out.map(unescapeICSText).map((x) => x.trim()).filter(Boolean);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon that is not inside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const eq = p.indexOf("=");
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// A DATE, or a DATE-TIME as wall-clock time in a zone: UTC for "Z" values, the TZID when it is
+// an IANA name, else the viewer's zone (floating times, Windows zone names)
+type ICSDateValue = { date: string; time: string | null; timeZone: string | null };
+
+function parseICSDate(cl: ContentLine): ICSDateValue | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z?))?$/.exec(cl.value.trim());
+  if (!m) return null;
+  const [, y, mo, d, h, mi, utc] = m;
+  const date = `${y}-${mo}-${d}`;
+  if (!isValid(parseISO(date))) return null;
+  if (!h) return { date, time: null, timeZone: null };
+  const tzid = cl.params.TZID;
+  return { date, time: `${h}:${mi}`, timeZone: utc ? "UTC" : tzid && isValidTimeZone(tzid) ? tzid : viewerTimeZone() };
+}
+
+// DURATION in seconds: P2W, P1D, PT1H30M, P1DT12H
+function parseICSDuration(v: string) {
+  const m = /^[+]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?/.exec(v.trim());
+  if (!m) return null;
+  const [w, d, h, mi, s] = m.slice(1).map((x) => +(x || 0));
+  return (w * 7 + d) * 86400 + h * 3600 + mi * 60 + s;
+}
+
+// The day a DATE or DATE-TIME (UNTIL, EXDATE) falls on in the event's own zone
+function dayInEventZone(cl: ContentLine, start: ICSDateValue) {
+  const v = parseICSDate(cl);
+  if (!v || !v.time || !start.timeZone) return v?.date ?? null;
+  return dateInZone(zonedTimeToInstant(v.date, v.time, v.timeZone!), start.timeZone);
+}
+
+const ICS_FREQS: Record<string, Recurrence["freq"]> = { DAILY: "daily", WEEKLY: "weekly", MONTHLY: "monthly" };
+
+// The subset the app can repeat: FREQ, INTERVAL, weekly BYDAY, monthly "nth weekday", UNTIL, COUNT
+function parseRRULE(value: string, start: ICSDateValue): Recurrence | null {
+  const parts: Record<string, string> = {};
+  for (const p of value.split(";")) {
+    const eq = p.indexOf("=");
+    if (eq > 0) parts[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).toUpperCase();
+  }
+  const freq = ICS_FREQS[parts.FREQ];
+  if (!freq) return null;
+  const r: Recurrence = { freq, interval: Math.max(1, parseInt(parts.INTERVAL, 10) || 1) };
+  const byDay = (parts.BYDAY || "").split(",").filter(Boolean);
+  if (freq === "weekly" && byDay.length) r.byWeekday = byDay.map((d) => ICS_WEEKDAYS.indexOf(d)).filter((d) => d >= 0);
+  if (freq === "monthly" && byDay.length) r.monthlyMode = "nthWeekday";
+  const until = parts.UNTIL ? dayInEventZone({ name: "UNTIL", params: {}, value: parts.UNTIL }, start) : null;
+  if (until) r.until = until;
+  else if (parseInt(parts.COUNT, 10) > 0) r.count = parseInt(parts.COUNT, 10);
+  return r;
+}
+
+const shiftISO = (iso: string, days: number) => format(addDays(parseISO(iso), days), "yyyy-MM-dd");
+
+function buildEvent(props: ContentLine[]): ICSEvent | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const dtStart = get("DTSTART");
+  const start = dtStart ? parseICSDate(dtStart) : null;
+  if (!start) return null;
+
+  const dtEnd = get("DTEND");
+  const end = dtEnd ? parseICSDate(dtEnd) : null;
+  const duration = get("DURATION") ? parseICSDuration(get("DURATION")!.value) : null;
+  let endDate = start.date;
+  let endTime: string | null = null;
+  if (!start.time) {
+    // DTEND is exclusive: an all-day event ending on the 3rd really ends on the 2nd
+    if (end) endDate = shiftISO(end.date, -1);
+    else if (duration && duration >= 86400) endDate = shiftISO(start.date, Math.floor(duration / 86400) - 1);
+  } else {
+    // Timed events keep their times, with the end read in the start's zone
+    const tz = start.timeZone!;
+    const startAt = zonedTimeToInstant(start.date, start.time, tz);
+    const endAt = end?.time ? zonedTimeToInstant(end.date, end.time, end.timeZone!) : duration ? new Date(startAt.getTime() + duration * 1000) : null;
+    if (endAt && endAt > startAt) {
+      endDate = dateInZone(endAt, tz);
+      endTime = timeInZone(endAt, tz);
+    }
+  }
+  if (endDate < start.date) endDate = start.date;
+
+  const rrule = get("RRULE");
+  const recurrence = rrule ? parseRRULE(rrule.value, start) : null;
+  if (recurrence) {
+    const exdates = props
+      .filter((p) => p.name === "EXDATE")
+      .flatMap((p) => p.value.split(",").map((v) => dayInEventZone({ ...p, value: v }, start)))
+      .filter((d): d is string => !!d);
+    if (exdates.length) recurrence.exdates = Array.from(new Set(exdates)).sort();
+  }
+
+  const projectName = get("X-PC-PROJECT") ? unescapeICSText(get("X-PC-PROJECT")!.value) : undefined;
+  let notes = get("DESCRIPTION") ? unescapeICSText(get("DESCRIPTION")!.value) : "";
+  // Strip the "Project: …" preamble added by our own export so notes round-trip
+  if (projectName && notes.startsWith(`Project: ${projectName}`)) notes = notes.slice(`Project: ${projectName}`.length).replace(/^\n+/, "");
+
+  const uid = get("UID")?.value.trim() || "";
+  return {
+    uid,
+    title: get("SUMMARY") ? unescapeICSText(get("SUMMARY")!.value).trim() : "(untitled)",
+    start: start.date,
+    end: endDate,
+    startTime: start.time,
+    endTime,
+    timeZone: start.timeZone,
+    recurrence,
+    notes,
+    categories: props.filter((p) => p.name === "CATEGORIES").flatMap((p) => splitICSList(p.value)),
+    projectName,
+  };
+}
+
+export function parseICS(text: string): ICSCalendar {
+  const lines = unfold(text).split(/\r?\n/);
+  if (!lines.some((l) => l.trim().toUpperCase() === "BEGIN:VCALENDAR")) {
+    throw new Error("Not an iCalendar file (missing BEGIN:VCALENDAR)");
+  }
+  let name = "";
+  const events: ICSEvent[] = [];
+  // Track component nesting so VALARM / VTIMEZONE properties don't leak into events
+  const stack: string[] = [];
+  let current: ContentLine[] | null = null;
+  for (const raw of lines) {
+    if (!raw.trim()) continue;
+    const cl = parseContentLine(raw);
+    if (!cl) continue;
+    if (cl.name === "BEGIN") {
+      const comp = cl.value.trim().toUpperCase();
+      stack.push(comp);
+      if (comp === "VEVENT") current = [];
+      continue;
+    }
+    if (cl.name === "END") {
+      const comp = stack.pop();
+      if (comp === "VEVENT" && current) {
+        const ev = buildEvent(current);
+        if (ev) events.push(ev);
+        current = null;
+      }
+      continue;
+    }
+    const top = stack[stack.length - 1];
+    if (top === "VEVENT" && current) current.push(cl);
+    else if (top === "VCALENDAR" && cl.name === "X-WR-CALNAME") name = unescapeICSText(cl.value).trim();
+  }
+  return { name, events };
+}
+
+// Our own UIDs carry the milestone id; foreign UIDs are kept verbatim as the id
+export const milestoneIdFromUID = (uid: string) =>
+  uid.endsWith(`@${UID_DOMAIN}`) ? uid.slice(0, -(UID_DOMAIN.length + 1)) : uid;
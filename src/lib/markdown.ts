@@ -0,0 +1,166 @@
+import type { Milestone } from "./types";
+
+// -----------------------------
+// Markdown notes
+// -----------------------------
+//
+// A small subset, parsed into a tree that the UI renders as React elements. Nothing is ever
+// injected as HTML, so notes can't carry markup or scripts; links only keep http(s) and mailto.
+//
+//   # Heading … ######     - item / * item / 1. item     > quote
+//   ```fenced code```      `code`  **bold**  *italic*  [text](https://…)  https://…
+//   #[Milestone title]     link to another milestone
+
+export type Inline =
+  | { kind: "text"; text: string }
+  | { kind: "break" }
+  | { kind: "code"; text: string }
+  | { kind: "strong" | "em"; children: Inline[] }
+  | { kind: "link"; href: string; children: Inline[] }
+  | { kind: "ref"; title: string };
+
+export type Block =
+  | { kind: "heading"; level: number; children: Inline[] }
+  | { kind: "paragraph" | "quote"; children: Inline[] }
+  | { kind: "list"; ordered: boolean; items: Inline[][] }
+  | { kind: "code"; text: string };
+
+export function safeHref(url: string): string | null {
+  const u = url.trim();
+  return /^(https?:\/\/|mailto:)[^\s\u0000-\u001f]+$/i.test(u) ? u : null;
+}
+
+const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}]/u.test(ch);
+
+export function parseInline(src: string): Inline[] {
+  const out: Inline[] = [];
+  let text = "";
+  const flush = () => {
+    if (text) out.push({ kind: "text", text });
+    text = "";
+  };
+  let i = 0;
+  while (i < src.length) {
+    const rest = src.slice(i);
+    const ch = src[i];
+    let m: RegExpExecArray | null;
+    if (ch === "\n") {
+      flush();
+      out.push({ kind: "break" });
+      i++;
+    } else if (ch === "`" && (m = /^`([^`]+)`/.exec(rest))) {
+      flush();
+      out.push({ kind: "code", text: m[1] });
+      i += m[0].length;
+    } else if (ch === "#" && (m = /^#\[([^\]\n]+)\]/.exec(rest)) && m[1].trim()) {
+      flush();
+      out.push({ kind: "ref", title: m[1].trim() });
+      i += m[0].length;
+    } else if (ch === "[" && (m = /^\[([^\]\n]+)\]\(([^)\s]+)\)/.exec(rest))) {
+      flush();
+      const href = safeHref(m[2]);
+      if (href) out.push({ kind: "link", href, children: parseInline(m[1]) });
+      else out.push(...parseInline(m[1]));
+      i += m[0].length;
+    } else if (ch === "h" && !isWordChar(src[i - 1]) && (m = /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/.exec(rest))) {
+      flush();
+      out.push({ kind: "link", href: m[0], children: [{ kind: "text", text: m[0] }] });
+      i += m[0].length;
+    } else if (rest.startsWith("**") && (m = /^\*\*(\S(?:[^\n]*?\S)?)\*\*/.exec(rest))) {
+      flush();
+      out.push({ kind: "strong", children: parseInline(m[1]) });
+      i += m[0].length;
+    } else if ((ch === "*" || ch === "_") && !isWordChar(src[i - 1]) && (m = (ch === "*" ? /^\*(\S(?:[^\n*]*?\S)?)\*/ : /^_(\S(?:[^\n_]*?\S)?)_(?![\p{L}\p{N}])/u).exec(rest))) {
+      flush();
+      out.push({ kind: "em", children: parseInline(m[1]) });
+      i += m[0].length;
+    } else {
+      text += ch;
+      i++;
+    }
+  }
+  flush();
+  return out;
+}
+
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+export function parseMarkdown(src: string): Block[] {
+  const lines = src.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let para: string[] = [];
+  const flushPara = () => {
+    if (para.length) blocks.push({ kind: "paragraph", children: parseInline(para.join("\n")) });
+    para = [];
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    let m: RegExpExecArray | null;
+    if (/^\s*```/.test(line)) {
+      flushPara();
+      const body: string[] = [];
+      while (++i < lines.length && !/^\s*```/.test(lines[i])) body.push(lines[i]);
+      blocks.push({ kind: "code", text: body.join("\n") });
+    } else if ((m = /^(#{1,6})\s+(.*)$/.exec(line))) {
+      flushPara();
+      blocks.push({ kind: "heading", level: m[1].length, children: parseInline(m[2].trim()) });
+    } else if ((m = LIST_ITEM.exec(line))) {
+      flushPara();
+      const ordered = /\d/.test(m[1]);
+      const items: Inline[][] = [parseInline(m[2])];
+      while (i + 1 < lines.length && (m = LIST_ITEM.exec(lines[i + 1]))) {
+        items.push(parseInline(m[2]));
+        i++;
+      }
+      blocks.push({ kind: "list", ordered, items });
+    } else if (/^\s*>/.test(line)) {
+      flushPara();
+      const body = [line.replace(/^\s*>\s?/, "")];
+      while (i + 1 < lines.length && /^\s*>/.test(lines[i + 1])) body.push(lines[++i].replace(/^\s*>\s?/, ""));
+      blocks.push({ kind: "quote", children: parseInline(body.join("\n")) });
+    } else if (!line.trim()) {
+      flushPara();
+    } else {
+      para.push(line);
+    }
+  }
+  flushPara();
+  return blocks;
+}
+
+// -----------------------------
+// Milestone references: #[Title]
+// -----------------------------
+
+const normalizeTitle = (t: string) => t.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Titles referenced from a note (as written), without duplicates
+export function milestoneRefs(src: string): string[] {
+  if (!src.includes("#[")) return [];
+  const found = new Map<string, string>();
+  const walk = (nodes: Inline[]) => {
+    for (const n of nodes) {
+      if (n.kind === "ref") found.set(normalizeTitle(n.title), n.title);
+      else if (n.kind === "strong" || n.kind === "em" || n.kind === "link") walk(n.children);
+    }
+  };
+  for (const b of parseMarkdown(src)) {
+    if (b.kind === "list") b.items.forEach(walk);
+    else if (b.kind !== "code") walk(b.children);
+  }
+  return Array.from(found.values());
+}
+
+// Titles aren't unique: prefer a milestone in the same project, else the first match
+export function resolveRef<T extends Milestone>(title: string, milestones: T[], projectId?: string): T | undefined {
+  const key = normalizeTitle(title);
+  const matches = milestones.filter((m) => normalizeTitle(m.title) === key);
+  return matches.find((m) => m.projectId === projectId) || matches[0];
+}
+
+// Milestones whose notes link to `target`
+export function backlinks<T extends Milestone>(target: Milestone, milestones: T[]): T[] {
+  return milestones.filter(
+    (m) => m.id !== target.id && milestoneRefs(m.notes || "").some((t) => resolveRef(t, milestones, m.projectId)?.id === target.id)
+  );
+}
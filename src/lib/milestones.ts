@@ -0,0 +1,29 @@
+import type { Milestone } from "./types";
+
+// -----------------------------
+// Milestone record helpers
+// -----------------------------
+
+// Same normalization the TagInput applies: "Needs Review" -> "needs-review"
+export const normalizeLabel = (t: string) => t.trim().toLowerCase().replace(/\s+/g, "-");
+
+export type UpsertResult = {
+  milestones: Milestone[];
+  created: number;
+  updated: number;
+};
+
+// Merge incoming records by id: matching ids are updated in place, the rest are appended
+export function upsertMilestones(existing: Milestone[], incoming: Milestone[]): UpsertResult {
+  const byId = new Map(incoming.map((m) => [m.id, m]));
+  let updated = 0;
+  const next = existing.map((m) => {
+    const inc = byId.get(m.id);
+    if (!inc) return m;
+    byId.delete(m.id);
+    updated++;
+    return { ...m, ...inc };
+  });
+  const added = Array.from(byId.values());
+  return { milestones: [...next, ...added], created: added.length, updated };
+}
@@ -0,0 +1,247 @@
+import { isValid, parseISO } from "date-fns";
+import type { Milestone, MilestoneStatus, Project } from "./types";
+import { durationDays } from "./dates";
+import { normalizeLabel } from "./milestones";
+import { viewerDays } from "./timeZones";
+import { isOverdue, statusOf } from "./status";
+
+// -----------------------------
+// Filter query language
+// -----------------------------
+//
+//   beta "go live"            text in the title or notes (quotes keep phrases together)
+//   project:web               project by name, case-insensitive; project:"Web App" for spaces
+//   label:risk                carries the label
+//   status:at-risk            planned, in-progress, at-risk, done, cancelled, or overdue
+//   after:2025-03-01          still running on or after the day
+//   before:2025-06-30         started on or before the day
+//   duration>5                length in days; also >=, <, <=, =
+//   -label:done, NOT x        negation
+//   a OR b                    either; binds tighter than the implicit AND between terms
+//   ( … )                     grouping
+
+export type QueryNode =
+  | { kind: "and" | "or"; items: QueryNode[] }
+  | { kind: "not"; item: QueryNode }
+  | { kind: "text"; value: string }
+  | { kind: "project"; value: string }
+  | { kind: "label"; value: string }
+  | { kind: "status"; value: MilestoneStatus | "overdue" }
+  | { kind: "after" | "before"; date: string }
+  | { kind: "duration"; op: Comparison; days: number };
+
+type Comparison = ">" | ">=" | "<" | "<=" | "=";
+
+// Character range of the offending input, for inline highlighting
+export type QueryError = { message: string; start: number; end: number };
+
+export type ParsedQuery = { node: QueryNode | null; error: QueryError | null };
+
+export const QUERY_KEYS = ["project:", "label:", "status:", "after:", "before:", "duration>"];
+
+// Query spelling of each status (hyphens read better than the stored underscores)
+export const STATUS_QUERY_VALUES: Record<string, MilestoneStatus | "overdue"> = {
+  planned: "planned",
+  "in-progress": "in_progress",
+  "at-risk": "at_risk",
+  done: "done",
+  cancelled: "cancelled",
+  overdue: "overdue",
+};
+
+type Token =
+  | { type: "(" | ")" | "or" | "not"; start: number; end: number }
+  | { type: "term"; key: string; op: string; value: string; start: number; end: number };
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, readonly start: number, readonly end: number) {
+    super(message);
+  }
+}
+
+const KEYED = /^([a-z]+)(>=|<=|:|>|<|=)(.*)$/is;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push({ type: ch, start: i, end: ++i });
+    } else if (ch === "-" && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      tokens.push({ type: "not", start: i, end: ++i });
+    } else {
+      // A word runs to the next space or bracket; quoted parts may contain either
+      const start = i;
+      let raw = "";
+      while (i < input.length && !/[\s()]/.test(input[i])) {
+        if (input[i] === '"') {
+          const close = input.indexOf('"', i + 1);
+          if (close < 0) throw new QuerySyntaxError("Missing closing quote", i, input.length);
+          raw += input.slice(i, close + 1);
+          i = close + 1;
+        } else raw += input[i++];
+      }
+      const unquote = (s: string) => s.replace(/"/g, "");
+      if (raw === "OR") tokens.push({ type: "or", start, end: i });
+      else if (raw === "NOT") tokens.push({ type: "not", start, end: i });
+      else if (raw === "AND") continue; // the default anyway
+      else {
+        const keyed = raw.startsWith('"') ? null : KEYED.exec(raw);
+        if (keyed) tokens.push({ type: "term", key: keyed[1].toLowerCase(), op: keyed[2], value: unquote(keyed[3]), start, end: i });
+        else tokens.push({ type: "term", key: "", op: "", value: unquote(raw), start, end: i });
+      }
+    }
+  }
+  return tokens;
+}
+
+function termNode(t: Extract<Token, { type: "term" }>): QueryNode {
+  const fail = (message: string): never => {
+    throw new QuerySyntaxError(message, t.start, t.end);
+  };
+  if (!t.key) return { kind: "text", value: t.value.toLowerCase() };
+  const known = ["project", "label", "status", "after", "before", "duration"];
+  if (!known.includes(t.key)) fail(`Unknown filter "${t.key}${t.op}" — use ${QUERY_KEYS.join(" ")}`);
+  if (!t.value) fail(`"${t.key}${t.op}" needs a value`);
+  if (t.key === "duration") {
+    const days = Number(t.value);
+    if (!Number.isInteger(days) || days < 0) fail(`Duration must be a whole number of days, not "${t.value}"`);
+    return { kind: "duration", op: t.op === ":" ? "=" : (t.op as Comparison), days };
+  }
+  if (t.op !== ":") fail(`Use "${t.key}:" — only duration compares with ${t.op}`);
+  if (t.key === "after" || t.key === "before") {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(t.value) || !isValid(parseISO(t.value))) fail(`"${t.value}" is not a date (yyyy-MM-dd)`);
+    return { kind: t.key, date: t.value };
+  }
+  if (t.key === "label") return { kind: "label", value: normalizeLabel(t.value) };
+  if (t.key === "status") {
+    const status = STATUS_QUERY_VALUES[t.value.toLowerCase().replace(/_/g, "-")];
+    if (!status) fail(`Unknown status "${t.value}" — use ${Object.keys(STATUS_QUERY_VALUES).join(", ")}`);
+    return { kind: "status", value: status };
+  }
+  return { kind: "project", value: t.value.toLowerCase() };
+}
+
+// and := or+ ; or := unary ("OR" unary)* ; unary := ("-" | "NOT") unary | "(" and ")" | term
+export function parseQuery(input: string): ParsedQuery {
+  try {
+    const tokens = tokenize(input);
+    let pos = 0;
+    const end = input.length;
+
+    const unary = (): QueryNode => {
+      const t = tokens[pos];
+      if (!t) throw new QuerySyntaxError("Query ends too early", end, end);
+      pos++;
+      if (t.type === "not") return { kind: "not", item: unary() };
+      if (t.type === "term") return termNode(t);
+      if (t.type === "(") {
+        const inner = and(t.start);
+        if (tokens[pos]?.type !== ")") throw new QuerySyntaxError("Missing closing bracket", t.start, t.end);
+        pos++;
+        return inner;
+      }
+      throw new QuerySyntaxError(t.type === "or" ? "OR needs a term on both sides" : "Unexpected closing bracket", t.start, t.end);
+    };
+
+    const or = (): QueryNode => {
+      const items = [unary()];
+      while (tokens[pos]?.type === "or") {
+        pos++;
+        items.push(unary());
+      }
+      return items.length === 1 ? items[0] : { kind: "or", items };
+    };
+
+    const and = (from: number): QueryNode => {
+      const items: QueryNode[] = [];
+      while (pos < tokens.length && tokens[pos].type !== ")") items.push(or());
+      if (!items.length) throw new QuerySyntaxError("Empty brackets", from, tokens[pos]?.end ?? end);
+      return items.length === 1 ? items[0] : { kind: "and", items };
+    };
+
+    if (!tokens.length) return { node: null, error: null };
+    const node = and(0);
+    if (pos < tokens.length) {
+      const t = tokens[pos];
+      throw new QuerySyntaxError("Unexpected closing bracket", t.start, t.end);
+    }
+    return { node, error: null };
+  } catch (e) {
+    if (e instanceof QuerySyntaxError) return { node: null, error: { message: e.message, start: e.start, end: e.end } };
+    throw e;
+  }
+}
+
+const compare = (a: number, op: Comparison, b: number) =>
+  op === ">" ? a > b : op === ">=" ? a >= b : op === "<" ? a < b : op === "<=" ? a <= b : a === b;
+
+// Dates as the viewer sees them; a recurring series (not an expanded occurrence) runs until its
+// UNTIL date, or indefinitely
+function span(m: Milestone & { occurrenceDate?: string }) {
+  const days = viewerDays(m);
+  if (m.recurrence && !m.occurrenceDate) return { date: days.date, endDate: m.recurrence.until || "9999-12-31" };
+  return days;
+}
+
+export function matchesQuery(node: QueryNode | null, m: Milestone & { occurrenceDate?: string }, projectsMap: Record<string, Project>): boolean {
+  if (!node) return true;
+  switch (node.kind) {
+    case "and":
+      return node.items.every((n) => matchesQuery(n, m, projectsMap));
+    case "or":
+      return node.items.some((n) => matchesQuery(n, m, projectsMap));
+    case "not":
+      return !matchesQuery(node.item, m, projectsMap);
+    case "text":
+      return m.title.toLowerCase().includes(node.value) || (m.notes || "").toLowerCase().includes(node.value);
+    case "project": {
+      const p = projectsMap[m.projectId];
+      return !!p && (p.id === node.value || p.name.toLowerCase() === node.value);
+    }
+    case "label":
+      return (m.labels || []).includes(node.value);
+    case "status":
+      return node.value === "overdue" ? isOverdue(m) : statusOf(m) === node.value;
+    case "after":
+      return span(m).endDate >= node.date;
+    case "before":
+      return span(m).date <= node.date;
+    case "duration":
+      return compare(durationDays(m.date, m.endDate), node.op, node.days);
+  }
+}
+
+// -----------------------------
+// Autocomplete
+// -----------------------------
+
+export type QuerySuggestion = { label: string; insert: string };
+
+const quoteIfNeeded = (v: string) => (/[\s()"]/.test(v) ? `"${v.replace(/"/g, "")}"` : v);
+
+// Suggestions for the word under the cursor; `from`/`to` is the range a pick replaces
+export function querySuggestions(input: string, cursor: number, projectNames: string[], labels: string[]) {
+  let from = cursor;
+  while (from > 0 && !/[\s()]/.test(input[from - 1])) from--;
+  let to = cursor;
+  while (to < input.length && !/[\s()]/.test(input[to])) to++;
+  const negated = input[from] === "-";
+  const word = input.slice(negated ? from + 1 : from, cursor).toLowerCase();
+  const prefix = negated ? "-" : "";
+  let suggestions: QuerySuggestion[] = [];
+  const valued = (key: string, values: string[]) => {
+    const partial = word.slice(key.length).replace(/"/g, "");
+    return values
+      .filter((v) => v.toLowerCase().startsWith(partial) && v.toLowerCase() !== partial)
+      .map((v) => ({ label: `${key}${v}`, insert: `${prefix}${key}${quoteIfNeeded(v)} ` }));
+  };
+  if (word.startsWith("project:")) suggestions = valued("project:", projectNames);
+  else if (word.startsWith("label:")) suggestions = valued("label:", labels);
+  else if (word.startsWith("status:")) suggestions = valued("status:", Object.keys(STATUS_QUERY_VALUES));
+  else if (word) suggestions = QUERY_KEYS.filter((k) => k.startsWith(word) && k !== word).map((k) => ({ label: k, insert: `${prefix}${k}` }));
+  return { from, to, suggestions: suggestions.slice(0, 8) };
+}
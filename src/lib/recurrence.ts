@@ -0,0 +1,185 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, format, getDate, getDay, getDaysInMonth, parseISO, startOfMonth, startOfWeek } from "date-fns";
+import type { Milestone, MilestoneInstance, Recurrence } from "./types";
+import { durationDays } from "./dates";
+
+// -----------------------------
+// Recurring milestones
+// -----------------------------
+
+export const WEEKDAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+export const ORDINALS = ["1st", "2nd", "3rd", "4th", "last"];
+
+// Hard stop so a daily rule without an end can't run away
+const MAX_OCCURRENCES = 10000;
+
+const iso = (d: Date) => format(d, "yyyy-MM-dd");
+
+// Which "nth weekday" the start date is; a 5th occurrence is treated as "last"
+export const nthWeekdayOf = (d: Date) => Math.min(5, Math.ceil(getDate(d) / 7));
+
+function nthWeekdayInMonth(month: Date, weekday: number, nth: number) {
+  const first = startOfMonth(month);
+  if (nth === 5) {
+    const last = addDays(first, getDaysInMonth(first) - 1);
+    return addDays(last, -((getDay(last) - weekday + 7) % 7));
+  }
+  return addDays(first, ((weekday - getDay(first) + 7) % 7) + (nth - 1) * 7);
+}
+
+// Yields candidate occurrence starts in order, before UNTIL/COUNT/EXDATE are applied
+function* candidates(startISO: string, r: Recurrence): Generator<Date> {
+  const start = parseISO(startISO);
+  const interval = Math.max(1, Math.floor(r.interval || 1));
+  if (r.freq === "daily") {
+    for (let i = 0; ; i++) yield addDays(start, i * interval);
+  } else if (r.freq === "weekly") {
+    const days = (r.byWeekday && r.byWeekday.length ? [...r.byWeekday] : [getDay(start)]).sort((a, b) => a - b);
+    const week0 = startOfWeek(start, { weekStartsOn: 0 });
+    for (let w = 0; ; w++) {
+      const weekStart = addWeeks(week0, w * interval);
+      for (const wd of days) {
+        const d = addDays(weekStart, wd);
+        if (d >= start) yield d;
+      }
+    }
+  } else {
+    const dom = getDate(start);
+    const nth = nthWeekdayOf(start);
+    const wd = getDay(start);
+    for (let i = 0; ; i++) {
+      const month = addMonths(startOfMonth(start), i * interval);
+      if (r.monthlyMode === "nthWeekday") yield nthWeekdayInMonth(month, wd, nth);
+      // Months without that day (e.g. the 31st) are skipped, as in RFC 5545
+      else if (dom <= getDaysInMonth(month)) yield addDays(month, dom - 1);
+    }
+  }
+}
+
+// Occurrence start dates whose span intersects [rangeStart, rangeEnd]
+export function occurrenceStarts(m: Milestone, rangeStart: Date, rangeEnd: Date): string[] {
+  const r = m.recurrence;
+  if (!r) return [m.date];
+  const spanDays = durationDays(m.date, m.endDate) - 1;
+  const from = iso(addDays(rangeStart, -spanDays));
+  const to = iso(rangeEnd);
+  const ex = new Set(r.exdates || []);
+  const out: string[] = [];
+  let n = 0;
+  for (const d of candidates(m.date, r)) {
+    const s = iso(d);
+    if (s > to || (r.until && s > r.until) || (r.count && n >= r.count) || n >= MAX_OCCURRENCES) break;
+    n++;
+    if (s >= from && !ex.has(s)) out.push(s);
+  }
+  return out;
+}
+
+// Expand recurring series into per-occurrence instances within the visible window
+export function expandInRange(milestones: Milestone[], rangeStart: Date, rangeEnd: Date): MilestoneInstance[] {
+  const out: MilestoneInstance[] = [];
+  for (const m of milestones) {
+    if (!m.recurrence) {
+      out.push(m);
+      continue;
+    }
+    const span = durationDays(m.date, m.endDate) - 1;
+    for (const s of occurrenceStarts(m, rangeStart, rangeEnd)) {
+      out.push({ ...m, date: s, endDate: iso(addDays(parseISO(s), span)), occurrenceDate: s });
+    }
+  }
+  return out;
+}
+
+// How many occurrences (exceptions included) start before `dateISO`
+export function occurrencesBefore(m: Milestone, dateISO: string) {
+  if (!m.recurrence) return 0;
+  let n = 0;
+  for (const d of candidates(m.date, m.recurrence)) {
+    if (iso(d) >= dateISO || n >= MAX_OCCURRENCES) break;
+    n++;
+  }
+  return n;
+}
+
+export function describeRecurrence(r: Recurrence, startISO: string) {
+  const start = parseISO(startISO);
+  const every = (unit: string) => (r.interval > 1 ? `Every ${r.interval} ${unit}s` : `Every ${unit}`);
+  let text: string;
+  if (r.freq === "daily") text = r.interval > 1 ? every("day") : "Daily";
+  else if (r.freq === "weekly") {
+    const days = r.byWeekday && r.byWeekday.length ? r.byWeekday : [getDay(start)];
+    text = `${r.interval > 1 ? every("week") : "Weekly"} on ${[...days].sort((a, b) => a - b).map((d) => WEEKDAY_SHORT[d]).join(", ")}`;
+  } else {
+    const on = r.monthlyMode === "nthWeekday" ? `the ${ORDINALS[nthWeekdayOf(start) - 1]} ${format(start, "EEEE")}` : `day ${getDate(start)}`;
+    text = `${r.interval > 1 ? every("month") : "Monthly"} on ${on}`;
+  }
+  if (r.until) text += ` until ${format(parseISO(r.until), "PP")}`;
+  else if (r.count) text += `, ${r.count} times`;
+  return text;
+}
+
+// -----------------------------
+// Editing part of a series
+// -----------------------------
+
+export type RecurrenceScope = "this" | "following" | "all";
+
+export const RECURRENCE_SCOPE_LABELS: Record<RecurrenceScope, string> = {
+  this: "This one",
+  following: "This & following",
+  all: "All",
+};
+
+const shiftISO = (d: string, days: number) => iso(addDays(parseISO(d), days));
+
+// Move a whole rule by `days`: weekdays, exceptions and the end date follow along
+export const shiftRecurrence = (r: Recurrence, days: number): Recurrence =>
+  days === 0
+    ? r
+    : {
+        ...r,
+        byWeekday: r.byWeekday?.map((d) => (((d + days) % 7) + 7) % 7),
+        until: r.until ? shiftISO(r.until, days) : r.until,
+        exdates: r.exdates?.map((d) => shiftISO(d, days)),
+      };
+
+// Series cut off so its last occurrence starts before `occurrenceDate`
+const endBefore = (series: Milestone, occurrenceDate: string): Milestone => ({
+  ...series,
+  recurrence: { ...series.recurrence!, until: shiftISO(occurrenceDate, -1), count: null },
+});
+
+// Records that replace `series` after `edited` (an occurrence with new values) is saved with `scope`
+export function splitSeries(series: Milestone, occurrenceDate: string, scope: RecurrenceScope, edited: Milestone, newId: () => string): Milestone[] {
+  const r = series.recurrence!;
+  if (scope === "all" || (scope === "following" && occurrenceDate === series.date)) {
+    // Moving one occurrence moves every occurrence by the same number of days
+    const delta = differenceInCalendarDays(parseISO(edited.date), parseISO(occurrenceDate));
+    const date = shiftISO(series.date, delta);
+    const span = durationDays(edited.date, edited.endDate) - 1;
+    return [{ ...edited, id: series.id, date, endDate: shiftISO(date, span), recurrence: edited.recurrence ? shiftRecurrence(edited.recurrence, delta) : null }];
+  }
+  if (scope === "this") {
+    const detached: Milestone = { ...edited, id: newId(), recurrence: null };
+    return [{ ...series, recurrence: { ...r, exdates: [...(r.exdates || []), occurrenceDate] } }, detached];
+  }
+  // This & following: end the old series and start a new one from the edited occurrence
+  const remaining = r.count ? r.count - occurrencesBefore(series, occurrenceDate) : null;
+  const rest: Milestone = {
+    ...edited,
+    id: newId(),
+    dependencies: [],
+    recurrence: edited.recurrence
+      ? { ...edited.recurrence, count: edited.recurrence.count && remaining ? remaining : edited.recurrence.count, exdates: (edited.recurrence.exdates || []).filter((d) => d >= edited.date) }
+      : null,
+  };
+  return [endBefore(series, occurrenceDate), rest];
+}
+
+// What is left of `series` after deleting occurrences; null when nothing remains
+export function removeOccurrences(series: Milestone, occurrenceDate: string, scope: RecurrenceScope): Milestone | null {
+  if (scope === "all" || (scope === "following" && occurrenceDate === series.date)) return null;
+  if (scope === "following") return endBefore(series, occurrenceDate);
+  const r = series.recurrence!;
+  return { ...series, recurrence: { ...r, exdates: [...(r.exdates || []), occurrenceDate] } };
+}
@@ -0,0 +1,196 @@
+import type { Milestone, Project } from "./types";
+import type { RecordStore } from "./storage";
+import { isObject, validateMilestone, validateProject, type QuarantinedRecord } from "./backup";
+
+// -----------------------------
+// Server sync (REST) with an offline queue
+// -----------------------------
+//
+// Protocol, implemented by server/sync-server.mjs:
+//   GET  {endpoint}/changes?since=N  -> { rev, changes: ServerChange[] }   records changed after revision N
+//   POST {endpoint}/changes          <- { clientId, ops: SyncOp[] }
+//                                    -> { rev, results: PushResult[] }
+// Every record carries a server revision. An op names the revision it was based on; if the
+// server's copy has moved on since, the op is refused and reported as a conflict.
+
+export type SyncRecord = Project | Milestone;
+
+export type SyncOp = {
+  store: RecordStore;
+  id: string;
+  op: "put" | "remove";
+  record?: SyncRecord; // for "put"
+  baseRev: number; // server revision this edit started from, 0 for records the server hasn't seen
+};
+
+export type ServerChange = { store: RecordStore; id: string; rev: number; record: SyncRecord | null }; // null = deleted
+
+export type PushResult =
+  | { store: RecordStore; id: string; status: "ok"; rev: number }
+  | { store: RecordStore; id: string; status: "conflict"; rev: number; record: SyncRecord | null };
+
+export type SyncConflict = {
+  store: RecordStore;
+  id: string;
+  mine: SyncRecord | null; // null when this side deleted it
+  theirs: SyncRecord | null;
+  theirsRev: number;
+};
+
+export type ServerSyncState = {
+  endpoint: string; // "" when sync is off
+  lastRev: number; // highest server revision pulled so far
+  revs: Record<string, number>; // "store:id" -> server revision of the local copy
+  queue: SyncOp[]; // local edits not yet accepted by the server
+  conflicts: SyncConflict[]; // refused edits waiting for the user to pick a side
+};
+
+const LS_KEY_SERVER_SYNC = "pc_server_sync_v1";
+
+export const syncKey = (store: RecordStore, id: string) => `${store}:${id}`;
+
+export const EMPTY_SYNC_STATE: ServerSyncState = { endpoint: "", lastRev: 0, revs: {}, queue: [], conflicts: [] };
+
+const validatorFor = (store: RecordStore): ((raw: unknown) => SyncRecord | string) => (store === "projects" ? validateProject : validateMilestone);
+
+const isRecordStore = (v: unknown): v is RecordStore => v === "projects" || v === "milestones";
+const isRev = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v) && v >= 0;
+const isSyncRecordOrNull = (store: RecordStore, v: unknown) => v === null || typeof validatorFor(store)(v) !== "string";
+
+function isSyncOp(v: unknown): v is SyncOp {
+  if (!isObject(v) || !isRecordStore(v.store) || typeof v.id !== "string" || !isRev(v.baseRev)) return false;
+  return v.op === "remove" || (v.op === "put" && v.record !== null && isSyncRecordOrNull(v.store, v.record));
+}
+
+function isSyncConflict(v: unknown): v is SyncConflict {
+  return isObject(v) && isRecordStore(v.store) && typeof v.id === "string" && isRev(v.theirsRev) && isSyncRecordOrNull(v.store, v.mine) && isSyncRecordOrNull(v.store, v.theirs);
+}
+
+// Stored state is untrusted: malformed ops and conflicts are dropped, anything else unreadable
+// falls back to "not connected"
+export function parseServerSyncState(raw: unknown): ServerSyncState {
+  if (!isObject(raw) || typeof raw.endpoint !== "string") return EMPTY_SYNC_STATE;
+  const revs: Record<string, number> = {};
+  if (isObject(raw.revs)) for (const [k, rev] of Object.entries(raw.revs)) if (isRev(rev)) revs[k] = rev;
+  return {
+    endpoint: raw.endpoint,
+    lastRev: isRev(raw.lastRev) ? raw.lastRev : 0,
+    revs,
+    queue: Array.isArray(raw.queue) ? raw.queue.filter(isSyncOp) : [],
+    // Conflicts were only kept in memory before; a state saved then has none
+    conflicts: Array.isArray(raw.conflicts) ? raw.conflicts.filter(isSyncConflict) : [],
+  };
+}
+
+// Kept in localStorage next to (not inside) the calendar data, so it survives reloads
+export function loadServerSyncState(): ServerSyncState {
+  try {
+    return parseServerSyncState(JSON.parse(localStorage.getItem(LS_KEY_SERVER_SYNC) || "null"));
+  } catch {
+    return EMPTY_SYNC_STATE;
+  }
+}
+
+export const saveServerSyncState = (s: ServerSyncState) => localStorage.setItem(LS_KEY_SERVER_SYNC, JSON.stringify(s));
+
+// Every tab shares the stored state; `onChange` runs when another tab saves it
+export function watchServerSyncState(onChange: (s: ServerSyncState) => void) {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === LS_KEY_SERVER_SYNC) onChange(loadServerSyncState());
+  };
+  window.addEventListener("storage", onStorage);
+  return () => window.removeEventListener("storage", onStorage);
+}
+
+// Ops are compared by value: the stored queue may have been re-read since they were sent
+const sameOp = (a: SyncOp, b: SyncOp) => JSON.stringify(a) === JSON.stringify(b);
+
+// Later edits to a queued record replace the queued op but keep its original base revision
+export function enqueueOps(queue: SyncOp[], ops: SyncOp[]): SyncOp[] {
+  const next = [...queue];
+  for (const op of ops) {
+    const i = next.findIndex((q) => q.store === op.store && q.id === op.id);
+    if (i < 0) next.push(op);
+    else next[i] = { ...op, baseRev: next[i].baseRev };
+  }
+  return next;
+}
+
+// Settle a push against the latest stored state: drop the ops the server answered, rebase ops
+// queued meanwhile (by this or another tab) and collect the refused ones as conflicts
+export function settlePush(s: ServerSyncState, sent: SyncOp[], results: PushResult[]): { patch: Partial<ServerSyncState>; refused: number } {
+  const revs = { ...s.revs };
+  const conflicts: SyncConflict[] = [];
+  for (const r of results) {
+    const key = syncKey(r.store, r.id);
+    const op = sent.find((o) => o.store === r.store && o.id === r.id);
+    if (r.status === "ok") revs[key] = r.rev;
+    else if (op) {
+      const mine = op.op === "put" ? op.record! : null;
+      // Same content on both sides (e.g. first connect of an already shared calendar) is no conflict
+      if (mine && r.record && !conflictFields(mine, r.record).length) revs[key] = r.rev;
+      else conflicts.push({ store: r.store, id: r.id, mine, theirs: r.record, theirsRev: r.rev });
+    }
+  }
+  const queue = s.queue.filter((q) => !sent.some((o) => sameOp(o, q))).map((q) => ({ ...q, baseRev: revs[syncKey(q.store, q.id)] ?? q.baseRev }));
+  const kept = s.conflicts.filter((c) => !conflicts.some((n) => n.store === c.store && n.id === c.id));
+  return { patch: { revs, queue, conflicts: [...kept, ...conflicts] }, refused: conflicts.length };
+}
+
+// Apply pulled server changes to a local list, leaving records with unsent local edits alone
+// (pushing those will surface the conflict). Server records are validated like a backup; ones
+// that fail go to `quarantined` and leave the local copy as it is. Returns null when nothing changed.
+export function applyServerChanges<T extends SyncRecord>(list: T[], store: RecordStore, changes: ServerChange[], pending: Set<string>, quarantined: QuarantinedRecord[]): T[] | null {
+  const at = new Date().toISOString();
+  const validate = validatorFor(store);
+  const byId = new Map(list.map((r) => [r.id, r]));
+  const added: T[] = [];
+  let changed = false;
+  for (const c of changes) {
+    if (c.store !== store || pending.has(syncKey(store, c.id))) continue;
+    const record = c.record === null ? null : validate(c.record);
+    if (typeof record === "string") {
+      quarantined.push({ kind: store === "projects" ? "project" : "milestone", reason: `from sync server: ${record}`, record: c.record, at });
+      continue;
+    }
+    changed = true;
+    if (!record) byId.delete(c.id);
+    else if (byId.has(c.id)) byId.set(c.id, record as T);
+    else added.push(record as T);
+  }
+  if (!changed) return null;
+  return [...list.filter((r) => byId.has(r.id)).map((r) => byId.get(r.id)!), ...added];
+}
+
+// Fields that differ between the two versions of a conflicting record
+export function conflictFields(mine: SyncRecord, theirs: SyncRecord): string[] {
+  const a: Record<string, unknown> = mine;
+  const b: Record<string, unknown> = theirs;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).filter((k) => k !== "id" && k !== "updatedAt" && JSON.stringify(a[k]) !== JSON.stringify(b[k]));
+}
+
+// Start from the server's copy and take the fields picked as "mine" from the local one
+export function mergeConflict(mine: SyncRecord, theirs: SyncRecord, takeMine: string[]): SyncRecord {
+  const own: Record<string, unknown> = mine;
+  const merged: Record<string, unknown> = { ...theirs };
+  for (const k of takeMine) merged[k] = own[k];
+  return merged as SyncRecord;
+}
+
+async function call<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { ...init, headers: { "Content-Type": "application/json", ...init?.headers } });
+  if (!res.ok) throw new Error(`Sync server answered ${res.status} ${res.statusText}`);
+  return (await res.json()) as T;
+}
+
+const changesURL = (endpoint: string) => `${endpoint.replace(/\/+$/, "")}/changes`;
+
+export const pullChanges = (endpoint: string, since: number) =>
+  call<{ rev: number; changes: ServerChange[] }>(`${changesURL(endpoint)}?since=${since}`);
+
+export const pushOps = (endpoint: string, clientId: string, ops: SyncOp[]) =>
+  call<{ rev: number; results: PushResult[] }>(changesURL(endpoint), { method: "POST", body: JSON.stringify({ clientId, ops }) });
+
+// fetch rejects with a TypeError when the server can't be reached at all
+export const isNetworkError = (e: unknown) => e instanceof TypeError;
@@ -0,0 +1,51 @@
+import { format } from "date-fns";
+import type { Milestone, MilestoneStatus } from "./types";
+import { safeEnd } from "./dates";
+
+// -----------------------------
+// Milestone status & progress
+// -----------------------------
+
+export const MILESTONE_STATUSES: MilestoneStatus[] = ["planned", "in_progress", "at_risk", "done", "cancelled"];
+
+export const STATUS_LABELS: Record<MilestoneStatus, string> = {
+  planned: "Planned",
+  in_progress: "In progress",
+  at_risk: "At risk",
+  done: "Done",
+  cancelled: "Cancelled",
+};
+
+// Badge colors (list, agenda) and how a chip's title is drawn in the calendar grids
+export const STATUS_BADGE: Record<MilestoneStatus, string> = {
+  planned: "bg-slate-100 text-slate-700",
+  in_progress: "bg-sky-100 text-sky-800",
+  at_risk: "bg-amber-100 text-amber-800",
+  done: "bg-emerald-100 text-emerald-800",
+  cancelled: "bg-slate-100 text-slate-400 line-through",
+};
+
+export const STATUS_CHIP: Record<MilestoneStatus, string> = {
+  planned: "",
+  in_progress: "font-medium",
+  at_risk: "font-medium text-amber-800",
+  done: "text-slate-500 line-through",
+  cancelled: "text-slate-400 line-through opacity-60",
+};
+
+export const isStatus = (v: unknown): v is MilestoneStatus => MILESTONE_STATUSES.includes(v as MilestoneStatus);
+
+export const statusOf = (m: Pick<Milestone, "status">): MilestoneStatus => (isStatus(m.status) ? m.status : "planned");
+
+// Done always reads as complete, whatever was recorded before
+export const progressOf = (m: Pick<Milestone, "status" | "progress">) =>
+  statusOf(m) === "done" ? 100 : Math.min(100, Math.max(0, Math.round(m.progress ?? 0)));
+
+const isClosed = (s: MilestoneStatus) => s === "done" || s === "cancelled";
+
+// Past its end and still open. A recurring series shares one status, so its occurrences never count.
+export const isOverdue = (m: Milestone & { occurrenceDate?: string }, today = format(new Date(), "yyyy-MM-dd")) =>
+  !m.recurrence && !isClosed(statusOf(m)) && safeEnd(m.date, m.endDate) < today;
+
+// Marking done fills the progress; reopening keeps whatever progress was recorded
+export const withStatus = (m: Milestone, status: MilestoneStatus): Milestone => ({ ...m, status, progress: status === "done" ? 100 : m.progress ?? 0 });
@@ -0,0 +1,310 @@
+import type { AppSettings, Milestone, Project, TrashEntry } from "./types";
+import { SCHEMA_VERSION, isObject, upgradeAndValidate, type LoadResult, type QuarantinedRecord } from "./backup";
+import { trashOf } from "./trash";
+
+// -----------------------------
+// Storage adapters
+// -----------------------------
+
+export type RecordStore = "projects" | "milestones";
+export type MetaKey = "settings" | "quarantine" | "trash";
+
+// Records whose object identity changed since the last write, ids that are gone,
+// and whether the id sequence itself changed
+export type RecordChanges<T> = { put: T[]; remove: string[]; reordered: boolean };
+
+// Persisted data exactly as read: lists are unvalidated and may be from an older schema
+export type StoredData = {
+  schemaVersion: number;
+  projects: unknown[];
+  milestones: unknown[];
+  settings: Record<string, unknown>;
+  quarantine: QuarantinedRecord[];
+  trash: unknown[];
+  problems: QuarantinedRecord[]; // found while reading (unparseable JSON, records without ids)
+};
+
+export interface StorageAdapter {
+  readonly label: string;
+  read(): Promise<StoredData>;
+  // `all` is the complete new list; backends that can't write per record store it whole
+  writeRecords<T extends { id: string }>(store: RecordStore, all: T[], changes: RecordChanges<T>): Promise<void>;
+  writeMeta(key: MetaKey, value: unknown): Promise<void>;
+  // Rewrite both lists at the current schema version (after migrations or quarantine)
+  replaceAll(projects: Project[], milestones: Milestone[]): Promise<void>;
+}
+
+export function diffRecords<T extends { id: string }>(prev: T[], next: T[]): RecordChanges<T> {
+  const before = new Map(prev.map((x) => [x.id, x]));
+  const ids = new Set(next.map((x) => x.id));
+  return {
+    put: next.filter((x) => before.get(x.id) !== x),
+    remove: prev.filter((x) => !ids.has(x.id)).map((x) => x.id),
+    reordered: prev.length !== next.length || next.some((x, i) => prev[i].id !== x.id),
+  };
+}
+
+const isQuotaError = (e: unknown) =>
+  isObject(e) && (e.name === "QuotaExceededError" || e.name === "NS_ERROR_DOM_QUOTA_REACHED" || e.code === 22);
+
+// Human-readable reason for a failed write
+export const describeStorageError = (e: unknown) =>
+  isQuotaError(e)
+    ? "Browser storage is full, so recent changes were not saved. Download a backup, then delete old projects or free up space."
+    : `Saving failed: ${(e as Error)?.message || String(e)}`;
+
+// -----------------------------
+// localStorage: whole JSON arrays per key (the original format)
+// -----------------------------
+
+const LS_KEY_PROJECTS = "pc_projects_v1";
+const LS_KEY_MILESTONES = "pc_milestones_v1";
+const LS_KEY_SETTINGS = "pc_settings_v1";
+const LS_KEY_SCHEMA = "pc_schema_version";
+const LS_KEY_QUARANTINE = "pc_quarantine_v1";
+const LS_KEY_TRASH = "pc_trash_v1";
+// Set to "localStorage" to opt out of IndexedDB
+const LS_KEY_BACKEND = "pc_storage_backend";
+
+const LS_KEYS: Record<RecordStore | MetaKey, string> = {
+  projects: LS_KEY_PROJECTS,
+  milestones: LS_KEY_MILESTONES,
+  settings: LS_KEY_SETTINGS,
+  quarantine: LS_KEY_QUARANTINE,
+  trash: LS_KEY_TRASH,
+};
+
+// localStorage.setItem throws synchronously (e.g. QuotaExceededError); surface it as a rejection
+const lsWrite = async (key: string, value: unknown) => localStorage.setItem(key, JSON.stringify(value));
+
+function readLocalStorage(): StoredData {
+  const at = new Date().toISOString();
+  const problems: QuarantinedRecord[] = [];
+  const readJSON = (key: string): unknown => {
+    const raw = localStorage.getItem(key);
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      problems.push({ kind: "document", reason: `${key} is not valid JSON`, record: raw, at });
+      return undefined;
+    }
+  };
+  const readList = (key: string): unknown[] => {
+    const parsed = readJSON(key);
+    if (parsed === undefined || Array.isArray(parsed)) return (parsed as unknown[]) || [];
+    problems.push({ kind: "document", reason: `${key} is not a list`, record: parsed, at });
+    return [];
+  };
+  const settings = readJSON(LS_KEY_SETTINGS);
+  const quarantine = readJSON(LS_KEY_QUARANTINE);
+  const trash = readJSON(LS_KEY_TRASH);
+  return {
+    schemaVersion: Number(localStorage.getItem(LS_KEY_SCHEMA) || 0),
+    projects: readList(LS_KEY_PROJECTS),
+    milestones: readList(LS_KEY_MILESTONES),
+    settings: isObject(settings) ? settings : {},
+    quarantine: Array.isArray(quarantine) ? quarantine : [],
+    trash: Array.isArray(trash) ? trash : [],
+    problems,
+  };
+}
+
+export function createLocalStorageAdapter(): StorageAdapter {
+  return {
+    label: "localStorage",
+    read: async () => readLocalStorage(),
+    writeRecords: (store, all) => lsWrite(LS_KEYS[store], all),
+    writeMeta: (key, value) => lsWrite(LS_KEYS[key], value),
+    replaceAll: async (projects, milestones) => {
+      await lsWrite(LS_KEY_PROJECTS, projects);
+      await lsWrite(LS_KEY_MILESTONES, milestones);
+      localStorage.setItem(LS_KEY_SCHEMA, String(SCHEMA_VERSION));
+    },
+  };
+}
+
+// -----------------------------
+// IndexedDB: one object per record, so an edit writes only what changed
+// -----------------------------
+
+const DB_NAME = "project-calendar";
+const DB_VERSION = 1;
+const META = "meta";
+// meta keys besides MetaKey: schema version, list order and the one-time migration marker
+const META_SCHEMA = "schemaVersion";
+const META_MIGRATED = "migratedFromLocalStorage";
+const orderKey = (store: RecordStore) => `order:${store}`;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("IndexedDB transaction was aborted"));
+  });
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains("projects")) db.createObjectStore("projects", { keyPath: "id" });
+      if (!db.objectStoreNames.contains("milestones")) db.createObjectStore("milestones", { keyPath: "id" });
+      if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error("IndexedDB is blocked by another open tab"));
+  });
+}
+
+// Object stores return records sorted by key; the saved id order keeps the user's ordering
+const inOrder = (records: unknown[], order: unknown) => {
+  if (!Array.isArray(order)) return records;
+  const rank = new Map(order.map((id, i) => [id, i]));
+  const at = (r: unknown) => rank.get(isObject(r) ? r.id : undefined) ?? order.length;
+  return [...records].sort((a, b) => at(a) - at(b));
+};
+
+// First run: copy the pc_*_v1 arrays over. Records without a usable id can't be keyed,
+// so they go straight to quarantine. localStorage is left untouched as a fallback copy.
+async function migrateFromLocalStorage(db: IDBDatabase) {
+  const ls = readLocalStorage();
+  const at = new Date().toISOString();
+  const problems = [...ls.problems];
+  const tx = db.transaction(["projects", "milestones", META], "readwrite");
+  for (const store of ["projects", "milestones"] as const) {
+    const seen = new Set<string>();
+    const order: string[] = [];
+    for (const record of ls[store]) {
+      const id = isObject(record) ? record.id : undefined;
+      if (typeof id !== "string" || !id || seen.has(id)) {
+        problems.push({ kind: store === "projects" ? "project" : "milestone", reason: typeof id === "string" && id ? `duplicate id ${id}` : "missing id", record, at });
+        continue;
+      }
+      seen.add(id);
+      order.push(id);
+      tx.objectStore(store).put(record);
+    }
+    tx.objectStore(META).put(order, orderKey(store));
+  }
+  const meta = tx.objectStore(META);
+  meta.put(ls.schemaVersion, META_SCHEMA);
+  meta.put(ls.settings, "settings");
+  meta.put([...ls.quarantine, ...problems], "quarantine");
+  meta.put(ls.trash, "trash");
+  meta.put(at, META_MIGRATED);
+  await completion(tx);
+}
+
+export function createIndexedDBAdapter(): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const db = () => (dbPromise ??= openDatabase());
+
+  return {
+    label: "IndexedDB",
+    async read() {
+      const conn = await db();
+      if (!(await request(conn.transaction(META).objectStore(META).get(META_MIGRATED)))) await migrateFromLocalStorage(conn);
+      const tx = conn.transaction(["projects", "milestones", META]);
+      const meta = tx.objectStore(META);
+      const [projects, milestones, schemaVersion, settings, quarantine, trash, projectOrder, milestoneOrder] = await Promise.all([
+        request(tx.objectStore("projects").getAll()),
+        request(tx.objectStore("milestones").getAll()),
+        request(meta.get(META_SCHEMA)),
+        request(meta.get("settings")),
+        request(meta.get("quarantine")),
+        request(meta.get("trash")),
+        request(meta.get(orderKey("projects"))),
+        request(meta.get(orderKey("milestones"))),
+      ]);
+      return {
+        schemaVersion: typeof schemaVersion === "number" ? schemaVersion : 0,
+        projects: inOrder(projects, projectOrder),
+        milestones: inOrder(milestones, milestoneOrder),
+        settings: isObject(settings) ? settings : {},
+        quarantine: Array.isArray(quarantine) ? quarantine : [],
+        trash: Array.isArray(trash) ? trash : [],
+        problems: [],
+      };
+    },
+    async writeRecords(store, all, { put, remove, reordered }) {
+      if (!put.length && !remove.length && !reordered) return;
+      const tx = (await db()).transaction([store, META], "readwrite");
+      const os = tx.objectStore(store);
+      for (const r of put) os.put(r);
+      for (const id of remove) os.delete(id);
+      if (reordered) tx.objectStore(META).put(all.map((r) => r.id), orderKey(store));
+      await completion(tx);
+    },
+    async writeMeta(key, value) {
+      const tx = (await db()).transaction(META, "readwrite");
+      tx.objectStore(META).put(value, key);
+      await completion(tx);
+    },
+    async replaceAll(projects, milestones) {
+      const tx = (await db()).transaction(["projects", "milestones", META], "readwrite");
+      const meta = tx.objectStore(META);
+      for (const [store, list] of [["projects", projects], ["milestones", milestones]] as const) {
+        const os = tx.objectStore(store);
+        os.clear();
+        for (const r of list) os.put(r);
+        meta.put(list.map((r) => r.id), orderKey(store));
+      }
+      meta.put(SCHEMA_VERSION, META_SCHEMA);
+      await completion(tx);
+    },
+  };
+}
+
+// -----------------------------
+// Opening storage
+// -----------------------------
+
+export type OpenedStorage = {
+  adapter: StorageAdapter;
+  data: LoadResult; // migrated and validated
+  quarantine: QuarantinedRecord[]; // previously stored plus anything set aside just now
+  trash: TrashEntry[];
+  notice: string; // e.g. why IndexedDB was not used
+};
+
+// Migrate and validate; if the stored copy is stale or had bad records, rewrite it once
+export async function loadFrom(adapter: StorageAdapter): Promise<OpenedStorage> {
+  const raw = await adapter.read();
+  const at = new Date().toISOString();
+  let data: LoadResult;
+  try {
+    data = upgradeAndValidate(raw);
+  } catch (e) {
+    // e.g. data written by a newer version of the app: keep all of it aside
+    const { schemaVersion, projects, milestones, settings } = raw;
+    data = { projects: [], milestones: [], settings: {}, quarantined: [{ kind: "document", reason: (e as Error).message, record: { schemaVersion, projects, milestones, settings }, at }] };
+  }
+  const quarantined = [...raw.problems, ...data.quarantined];
+  const quarantine = [...raw.quarantine, ...quarantined];
+  // Records set aside are saved before the lists are rewritten without them
+  if (quarantined.length) await adapter.writeMeta("quarantine", quarantine);
+  if (raw.schemaVersion !== SCHEMA_VERSION || quarantined.length) await adapter.replaceAll(data.projects, data.milestones);
+  return { adapter, data: { ...data, settings: data.settings as AppSettings, quarantined }, quarantine, trash: trashOf(raw.trash), notice: "" };
+}
+
+// IndexedDB when the browser has it, falling back to localStorage
+export async function openStorage(): Promise<OpenedStorage> {
+  const forced = localStorage.getItem(LS_KEY_BACKEND) === "localStorage";
+  if (!forced && typeof indexedDB !== "undefined") {
+    try {
+      return await loadFrom(createIndexedDBAdapter());
+    } catch (e) {
+      const opened = await loadFrom(createLocalStorageAdapter());
+      return { ...opened, notice: `IndexedDB is unavailable (${(e as Error)?.message || String(e)}); using localStorage instead.` };
+    }
+  }
+  return loadFrom(createLocalStorageAdapter());
+}
@@ -0,0 +1,111 @@
+// -----------------------------
+// Cross-tab sync with per-record last-writer-wins
+// -----------------------------
+//
+// Projects and milestones travel as per-record changes. Settings, the trash and quarantine are
+// small single documents: the whole value travels and the latest write wins.
+
+type Stamped = { id: string; updatedAt?: string | null };
+
+export type RecordStoreName = "projects" | "milestones";
+
+export type SyncMessage<T extends Stamped = Stamped> = {
+  source: string; // tab id, so a tab ignores its own echo
+  store: RecordStoreName;
+  put: T[];
+  remove: { id: string; at: string }[];
+};
+
+export type MetaStoreName = "settings" | "trash" | "quarantine";
+
+export type MetaSyncMessage = {
+  source: string;
+  meta: MetaStoreName;
+  value: unknown; // untrusted until checked by the receiver
+  at: string; // ISO time of the change
+};
+
+export type ChannelMessage = SyncMessage | MetaSyncMessage;
+
+const CHANNEL = "project-calendar-sync";
+// storage-event fallback for browsers without BroadcastChannel
+const LS_KEY_SYNC = "pc_sync_message";
+
+const stampOf = (r?: Stamped | null) => r?.updatedAt || "";
+
+// New and changed records (by object identity) get the current time as their modification stamp
+export function stampChanges<T extends Stamped>(prev: T[], next: T[], now = new Date().toISOString()): T[] {
+  if (prev === next) return next;
+  const before = new Map(prev.map((x) => [x.id, x]));
+  return next.map((x) => (before.get(x.id) === x ? x : { ...x, updatedAt: now }));
+}
+
+// Apply a remote change set. A record is replaced only by a copy at least as new; a removal
+// loses against a local edit made after it. `tombstones` remembers removal times so a stale
+// put for an already-deleted record doesn't resurrect it. Returns null when nothing changed.
+export function mergeRemote<T extends Stamped>(local: T[], msg: SyncMessage<T>, tombstones: Map<string, string>): T[] | null {
+  const byId = new Map(local.map((x) => [x.id, x]));
+  let changed = false;
+  for (const { id, at } of msg.remove) {
+    const cur = byId.get(id);
+    if (at > (tombstones.get(id) || "")) tombstones.set(id, at);
+    if (cur && stampOf(cur) <= at) {
+      byId.delete(id);
+      changed = true;
+    }
+  }
+  const added: T[] = [];
+  for (const r of msg.put) {
+    const cur = byId.get(r.id);
+    if (cur) {
+      if (stampOf(r) >= stampOf(cur) && cur !== r) {
+        byId.set(r.id, r);
+        changed = true;
+      }
+    } else if (!tombstones.has(r.id) || stampOf(r) > tombstones.get(r.id)!) {
+      added.push(r);
+      changed = true;
+    }
+  }
+  if (!changed) return null;
+  // Keep the local ordering; records new to this tab go at the end
+  return [...local.filter((x) => byId.has(x.id)).map((x) => byId.get(x.id)!), ...added];
+}
+
+// A remote document is taken unless this tab changed it later. `stamps` holds the time of the
+// latest change seen per document and is updated when the message wins.
+export function acceptMeta(msg: MetaSyncMessage, stamps: Map<MetaStoreName, string>) {
+  if (msg.at <= (stamps.get(msg.meta) || "")) return false;
+  stamps.set(msg.meta, msg.at);
+  return true;
+}
+
+export type SyncChannel = { post: (msg: ChannelMessage) => void; close: () => void };
+
+export function openSyncChannel(onMessage: (msg: ChannelMessage) => void): SyncChannel {
+  if (typeof BroadcastChannel !== "undefined") {
+    const ch = new BroadcastChannel(CHANNEL);
+    ch.onmessage = (e) => onMessage(e.data as ChannelMessage);
+    return { post: (msg) => ch.postMessage(msg), close: () => ch.close() };
+  }
+  // Other tabs get a storage event for every write; the nonce makes repeated messages distinct
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== LS_KEY_SYNC || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue).msg as ChannelMessage);
+    } catch {
+      // ignore partial or foreign values
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return {
+    post: (msg) => {
+      try {
+        localStorage.setItem(LS_KEY_SYNC, JSON.stringify({ nonce: Math.random(), msg }));
+      } catch {
+        // a full localStorage only costs live sync; the write itself is reported by the storage layer
+      }
+    },
+    close: () => window.removeEventListener("storage", onStorage),
+  };
+}
@@ -0,0 +1,109 @@
+import type { Milestone } from "./types";
+import { safeEnd } from "./dates";
+
+// -----------------------------
+// Timed milestones in IANA time zones
+// -----------------------------
+//
+// A timed milestone is written as wall-clock times ("HH:mm") on its start/end dates in one
+// zone. Everything the viewer sees is converted to their own zone, which can move it onto
+// other days than the ones it was written on.
+
+type Timed = Pick<Milestone, "date" | "endDate" | "startTime" | "endTime" | "timeZone">;
+
+export const viewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export function isValidTimeZone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const isTime = (v: unknown): v is string => typeof v === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(v);
+
+export const isTimed = (m: Pick<Milestone, "startTime">) => isTime(m.startTime);
+
+// Zones for the picker; older browsers without Intl.supportedValuesOf get a short list
+export function timeZoneOptions(): string[] {
+  const all = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.("timeZone") || [
+    "America/Los_Angeles",
+    "America/New_York",
+    "America/Sao_Paulo",
+    "Europe/London",
+    "Europe/Berlin",
+    "Asia/Kolkata",
+    "Asia/Singapore",
+    "Asia/Tokyo",
+    "Australia/Sydney",
+  ];
+  return Array.from(new Set(["UTC", viewerTimeZone(), ...all]));
+}
+
+// Building an Intl formatter is slow; keep one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// The wall clock in `tz` at an instant, expressed as if it were UTC (ms since epoch)
+function wallClock(instant: number, tz: string) {
+  let fmt = formatters.get(tz);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", { timeZone: tz, hourCycle: "h23", year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit" });
+    formatters.set(tz, fmt);
+  }
+  const p = Object.fromEntries(fmt.formatToParts(new Date(instant)).map((x) => [x.type, Number(x.value)]));
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+}
+
+const zoneOffset = (instant: number, tz: string) => wallClock(instant, tz) - Math.floor(instant / 1000) * 1000;
+
+// The instant a wall-clock time in `tz` refers to. A time skipped by a DST jump resolves to the
+// same distance after the jump; a repeated one to its first occurrence.
+export function zonedTimeToInstant(dateISO: string, time: string, tz: string): Date {
+  const [y, mo, d] = dateISO.split("-").map(Number);
+  const [h, mi] = time.split(":").map(Number);
+  const wall = Date.UTC(y, mo - 1, d, h, mi);
+  const first = wall - zoneOffset(wall, tz);
+  const second = wall - zoneOffset(first, tz);
+  return new Date(zoneOffset(second, tz) === wall - second ? second : first);
+}
+
+// yyyy-MM-dd / HH:mm of an instant as seen in `tz`
+export const dateInZone = (instant: Date, tz: string) => new Date(wallClock(instant.getTime(), tz)).toISOString().slice(0, 10);
+export const timeInZone = (instant: Date, tz: string) => new Date(wallClock(instant.getTime(), tz)).toISOString().slice(11, 16);
+
+// Start and end instants of a timed milestone (null for all-day ones). Without an end time the
+// milestone ends at its start time on the end date.
+export function milestoneInstants(m: Timed): { start: Date; end: Date } | null {
+  if (!isTimed(m)) return null;
+  const tz = m.timeZone || viewerTimeZone();
+  const start = zonedTimeToInstant(m.date, m.startTime!, tz);
+  const end = zonedTimeToInstant(safeEnd(m.date, m.endDate), isTime(m.endTime) ? m.endTime : m.startTime!, tz);
+  return { start, end: end < start ? start : end };
+}
+
+// The days a milestone covers as seen from `tz`. An event ending exactly at midnight doesn't
+// spill into the next day.
+export function viewerDays(m: Timed, tz = viewerTimeZone()): { date: string; endDate: string } {
+  const span = milestoneInstants(m);
+  if (!span) return { date: m.date, endDate: safeEnd(m.date, m.endDate) };
+  const last = span.end > span.start ? new Date(span.end.getTime() - 1) : span.end;
+  return { date: dateInZone(span.start, tz), endDate: dateInZone(last, tz) };
+}
+
+// "14:00" or "14:00–15:30" in the viewer's zone; "" for all-day milestones
+export function formatTimes(m: Timed, tz = viewerTimeZone()) {
+  const span = milestoneInstants(m);
+  if (!span) return "";
+  const start = timeInZone(span.start, tz);
+  return span.end > span.start ? `${start}–${timeInZone(span.end, tz)}` : start;
+}
+
+// The times as they were written, for hover text: "2025-03-01 14:00–15:00 UTC"
+export function describeOriginalTime(m: Timed) {
+  if (!isTimed(m)) return "";
+  const end = safeEnd(m.date, m.endDate);
+  const until = isTime(m.endTime) ? `–${end !== m.date ? `${end} ` : ""}${m.endTime}` : "";
+  return `${m.date} ${m.startTime}${until} ${m.timeZone || viewerTimeZone()}`;
+}
@@ -0,0 +1,130 @@
+import {
+  addDays,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+} from "date-fns";
+import { safeEnd } from "./dates";
+
+// -----------------------------
+// Timeline zoom levels and header scales
+// -----------------------------
+
+export type TimelineZoom = "week" | "month" | "quarter" | "year";
+
+export const TIMELINE_ZOOMS: TimelineZoom[] = ["week", "month", "quarter", "year"];
+
+export const ZOOM_LABELS: Record<TimelineZoom, string> = { week: "Week", month: "Month", quarter: "Quarter", year: "Year" };
+
+// Pixels per day, chosen so one period roughly fills the card
+export const ZOOM_DAY_WIDTH: Record<TimelineZoom, number> = { week: 100, month: 28, quarter: 9, year: 2.4 };
+
+export const stepPeriod = (date: Date, zoom: TimelineZoom, dir: number) =>
+  zoom === "week" ? addWeeks(date, dir) : zoom === "month" ? addMonths(date, dir) : zoom === "quarter" ? addQuarters(date, dir) : addYears(date, dir);
+
+export function periodBounds(date: Date, zoom: TimelineZoom) {
+  switch (zoom) {
+    case "week":
+      return { start: startOfWeek(date, { weekStartsOn: 0 }), end: endOfWeek(date, { weekStartsOn: 0 }) };
+    case "month":
+      return { start: startOfMonth(date), end: endOfMonth(date) };
+    case "quarter":
+      return { start: startOfQuarter(date), end: endOfQuarter(date) };
+    case "year":
+      return { start: startOfYear(date), end: endOfYear(date) };
+  }
+}
+
+export function describePeriod(date: Date, zoom: TimelineZoom) {
+  const { start, end } = periodBounds(date, zoom);
+  if (zoom === "week") return `${format(start, "MMM d")} – ${format(end, start.getMonth() === end.getMonth() ? "d, yyyy" : "MMM d, yyyy")}`;
+  if (zoom === "month") return format(date, "MMMM yyyy");
+  if (zoom === "quarter") return format(date, "QQQ yyyy");
+  return format(date, "yyyy");
+}
+
+export type TimelineWindow = {
+  start: Date; // first rendered day
+  end: Date; // last rendered day (inclusive)
+  days: number;
+  focusIndex: number; // day offset where the anchor's own period begins
+};
+
+// The anchor period plus one period either side, so scrolling reveals its neighbours
+export function timelineWindow(anchor: Date, zoom: TimelineZoom): TimelineWindow {
+  const start = periodBounds(stepPeriod(anchor, zoom, -1), zoom).start;
+  const end = periodBounds(stepPeriod(anchor, zoom, 1), zoom).end;
+  return {
+    start,
+    end,
+    days: differenceInCalendarDays(end, start) + 1,
+    focusIndex: differenceInCalendarDays(periodBounds(anchor, zoom).start, start),
+  };
+}
+
+export type ScaleCell = { key: string; label: string; startIndex: number; span: number };
+
+// Cut [start, end] into calendar units; the first and last cell are clipped to the window
+function segments(start: Date, end: Date, unitStart: (d: Date) => Date, next: (d: Date) => Date, label: (d: Date) => string): ScaleCell[] {
+  const cells: ScaleCell[] = [];
+  let cur = unitStart(start);
+  while (cur <= end) {
+    const nxt = next(cur);
+    const from = cur < start ? start : cur;
+    const to = nxt > end ? addDays(end, 1) : nxt;
+    cells.push({ key: format(cur, "yyyy-MM-dd"), label: label(cur), startIndex: differenceInCalendarDays(from, start), span: differenceInCalendarDays(to, from) });
+    cur = nxt;
+  }
+  return cells;
+}
+
+// Major row groups the minor units: months over days/weeks, years over months
+export function timelineScale(start: Date, end: Date, zoom: TimelineZoom) {
+  const days = (label: string) => segments(start, end, (d) => d, (d) => addDays(d, 1), (d) => format(d, label));
+  const months = (label: string) => segments(start, end, startOfMonth, (d) => addMonths(d, 1), (d) => format(d, label));
+  switch (zoom) {
+    case "week":
+      return { major: months("MMMM yyyy"), minor: days("EEE d") };
+    case "month":
+      return { major: months("MMMM yyyy"), minor: days("d") };
+    case "quarter":
+      return {
+        major: months("MMM yyyy"),
+        minor: segments(start, end, (d) => startOfWeek(d, { weekStartsOn: 0 }), (d) => addWeeks(d, 1), (d) => format(d, "MMM d")),
+      };
+    case "year":
+      return { major: segments(start, end, startOfYear, (d) => addYears(d, 1), (d) => format(d, "yyyy")), minor: months("MMM") };
+  }
+}
+
+// -----------------------------
+// Editing bars
+// -----------------------------
+
+// "move" shifts the whole bar; "start" / "end" drag one edge and never cross the other
+export type BarEdit = "move" | "start" | "end";
+
+export function editRange(date: string, endDate: string | null | undefined, kind: BarEdit, deltaDays: number) {
+  const start = parseISO(date);
+  const end = parseISO(safeEnd(date, endDate));
+  const iso = (d: Date) => format(d, "yyyy-MM-dd");
+  if (kind === "move") return { date: iso(addDays(start, deltaDays)), endDate: iso(addDays(end, deltaDays)) };
+  if (kind === "start") {
+    const s = addDays(start, deltaDays);
+    return { date: iso(s > end ? end : s), endDate: iso(end) };
+  }
+  const e = addDays(end, deltaDays);
+  return { date: iso(start), endDate: iso(e < start ? start : e) };
+}
@@ -0,0 +1,68 @@
+import type { Milestone, Project, TrashEntry } from "./types";
+import { isObject, validateMilestone, validateProject } from "./backup";
+import { pruneDependencies } from "./dependencies";
+
+// -----------------------------
+// Trash bin: deleted projects and milestones, kept until restored or purged
+// -----------------------------
+
+// Stored trash is read back unchecked; entries with malformed records are dropped
+export function trashOf(raw: unknown): TrashEntry[] {
+  if (!Array.isArray(raw)) return [];
+  const out: TrashEntry[] = [];
+  for (const e of raw) {
+    if (!isObject(e) || typeof e.id !== "string" || typeof e.deletedAt !== "string" || !Array.isArray(e.milestones)) continue;
+    const project = e.project == null ? null : validateProject(e.project);
+    const milestones = e.milestones.map(validateMilestone);
+    if (typeof project === "string" || milestones.some((m) => typeof m === "string")) continue;
+    if (!project && !milestones.length) continue;
+    out.push({ id: e.id, deletedAt: e.deletedAt, project, milestones: milestones as Milestone[] });
+  }
+  return out;
+}
+
+// Everything deleting a project takes along: its milestones, and links from other projects'
+// milestones onto them
+export function projectDeletionImpact(projectId: string, milestones: Milestone[]) {
+  const own = milestones.filter((m) => m.projectId === projectId);
+  const ids = new Set(own.map((m) => m.id));
+  const links = milestones.filter((m) => m.projectId !== projectId).reduce((n, m) => n + (m.dependencies || []).filter((d) => ids.has(d.predecessorId)).length, 0);
+  return { milestones: own, links };
+}
+
+export const trashEntry = (project: Project | null, milestones: Milestone[], id: string, now = new Date()): TrashEntry => ({
+  id,
+  deletedAt: now.toISOString(),
+  project,
+  milestones,
+});
+
+// Put an entry's records back. Records that exist again (undo, another tab) are skipped;
+// milestones need their project, so a project still in the trash must be restored first.
+export function restoreEntry(entry: TrashEntry, projects: Project[], milestones: Milestone[]): { projects: Project[]; milestones: Milestone[] } | string {
+  const projectIds = new Set(projects.map((p) => p.id));
+  if (entry.project) projectIds.add(entry.project.id);
+  const orphan = entry.milestones.find((m) => !projectIds.has(m.projectId));
+  if (orphan) return `“${orphan.title}” belongs to a project that no longer exists — restore the project first.`;
+  const live = new Set(milestones.map((m) => m.id));
+  const back = entry.milestones.filter((m) => !live.has(m.id));
+  return {
+    projects: entry.project && !projects.some((p) => p.id === entry.project!.id) ? [...projects, entry.project] : projects,
+    milestones: back.length ? pruneDependencies([...milestones, ...back]) : milestones,
+  };
+}
+
+// Entries whose records came back some other way (undo, sync) have nothing left to restore
+export function dropRestored(trash: TrashEntry[], projects: Project[], milestones: Milestone[]) {
+  const projectIds = new Set(projects.map((p) => p.id));
+  const milestoneIds = new Set(milestones.map((m) => m.id));
+  const next = trash.filter((e) => (e.project ? !projectIds.has(e.project.id) : !e.milestones.every((m) => milestoneIds.has(m.id))));
+  return next.length === trash.length ? trash : next;
+}
+
+// "Website Revamp and 4 milestones", "“Kickoff”", "3 milestones"
+export function describeTrashEntry(e: TrashEntry) {
+  const n = (count: number) => `${count} milestone${count === 1 ? "" : "s"}`;
+  if (e.project) return e.milestones.length ? `${e.project.name} and ${n(e.milestones.length)}` : e.project.name;
+  return e.milestones.length === 1 ? `“${e.milestones[0].title}”` : n(e.milestones.length);
+}
@@ -0,0 +1,116 @@
+// -----------------------------
+// Domain types shared across the app
+// -----------------------------
+
+export type Milestone = {
+  id: string;
+  title: string;
+  date: string; // start ISO yyyy-MM-dd
+  endDate?: string | null; // optional end ISO yyyy-MM-dd (inclusive)
+  startTime?: string | null; // "HH:mm" on `date`; absent/null for all-day milestones
+  endTime?: string | null; // "HH:mm" on the end date
+  timeZone?: string | null; // IANA zone the times are written in, e.g. "Europe/Berlin"
+  notes?: string;
+  projectId: string;
+  labels?: string[]; // tags for filtering
+  dependencies?: Dependency[]; // predecessors this milestone waits on
+  recurrence?: Recurrence | null; // repeats from `date`; each occurrence keeps the same duration
+  status?: MilestoneStatus | null; // null reads as "planned"
+  progress?: number | null; // percent complete, 0–100
+  checklist?: ChecklistItem[];
+  progressFromChecklist?: boolean; // status and progress follow the checklist
+  updatedAt?: string | null; // ISO timestamp of the last local edit (last-writer-wins across tabs)
+};
+
+export type ChecklistItem = {
+  id: string;
+  text: string;
+  done: boolean;
+  due?: string | null; // yyyy-MM-dd within the milestone's dates
+  assignee?: string | null;
+};
+
+export type MilestoneStatus = "planned" | "in_progress" | "at_risk" | "done" | "cancelled";
+
+// RRULE-style repetition (a subset of RFC 5545 FREQ/INTERVAL/BYDAY/UNTIL/COUNT + EXDATE)
+export type Recurrence = {
+  freq: "daily" | "weekly" | "monthly";
+  interval: number; // every N days / weeks / months
+  byWeekday?: number[]; // weekly: 0 = Sunday … 6 = Saturday; defaults to the start's weekday
+  monthlyMode?: "dayOfMonth" | "nthWeekday"; // monthly: "on the 15th" vs "on the 3rd Tuesday"
+  until?: string | null; // last possible occurrence start, yyyy-MM-dd inclusive
+  count?: number | null; // total occurrences, exceptions included
+  exdates?: string[]; // skipped occurrence start dates
+};
+
+// A milestone as rendered: recurring series are expanded into one instance per occurrence
+export type MilestoneInstance = Milestone & {
+  occurrenceDate?: string; // set on expanded occurrences of a recurring series
+};
+
+// FS: starts after the predecessor finishes; SS: starts once the predecessor starts
+export type DependencyType = "FS" | "SS";
+
+export type Dependency = {
+  predecessorId: string;
+  type: DependencyType;
+  lagDays: number; // extra calendar days after the constraint point (may be negative)
+};
+
+export type Project = {
+  id: string;
+  name: string;
+  color: string; // hex
+  calendarId?: string | null; // working calendar; null uses the default one
+  parentId?: string | null; // program or portfolio this project belongs to
+  description?: string;
+  owner?: string; // free text, e.g. a person or team
+  archived?: boolean; // hidden from views and pickers, data kept
+  updatedAt?: string | null; // ISO timestamp of the last local edit
+};
+
+// Deleted records kept for restore: a project with the milestones it took along, or milestones
+// deleted on their own
+export type TrashEntry = {
+  id: string;
+  deletedAt: string; // ISO timestamp
+  project: Project | null;
+  milestones: Milestone[];
+};
+
+export type Holiday = { date: string; name: string }; // yyyy-MM-dd
+
+// Which days count as working days for durations, shifting and shading
+export type WorkCalendar = {
+  id: string;
+  name: string;
+  workingWeekdays: number[]; // 0 = Sunday … 6 = Saturday
+  holidays: Holiday[];
+};
+
+// A milestone's dates as they stood when a baseline was captured
+export type BaselineEntry = { id: string; title: string; date: string; endDate: string };
+
+// Named snapshot of one project's plan, to measure slip against
+export type Baseline = {
+  id: string;
+  projectId: string;
+  name: string;
+  capturedAt: string; // ISO timestamp
+  milestones: BaselineEntry[];
+};
+
+// A named view: the URL query string of the view state. A view saved on the current day keeps
+// following "today"; one saved elsewhere keeps its date.
+export type SavedView = { id: string; name: string; search: string };
+
+// Persisted app-wide preferences, carried along in backups. Values come from storage or old
+// backups unchecked, so read them through the helpers that validate them (e.g. workCalendarsOf).
+export type AppSettings = {
+  workCalendars?: WorkCalendar[];
+  defaultCalendarId?: string;
+  workingDayDurations?: boolean; // count durations and shift milestones in working days
+  savedViews?: SavedView[];
+  baselines?: Baseline[];
+  [key: string]: unknown;
+};
@@ -0,0 +1,67 @@
+import { format, isValid, parseISO } from "date-fns";
+import { TIMELINE_ZOOMS, type TimelineZoom } from "./timeline";
+import type { AppSettings, SavedView } from "./types";
+
+// -----------------------------
+// View state in the URL, and named saved views
+// -----------------------------
+
+export type ViewMode = "calendar" | "week" | "agenda" | "timeline";
+
+export const VIEW_MODES: ViewMode[] = ["calendar", "week", "agenda", "timeline"];
+
+// Everything that decides what's on screen, but none of the data
+export type ViewState = {
+  date: string; // anchor day, yyyy-MM-dd
+  mode: ViewMode;
+  zoom: TimelineZoom;
+  projectId: string; // "all" or a project id
+  labels: string[];
+  query: string;
+};
+
+export const defaultViewState = (today = new Date()): ViewState => ({
+  date: format(today, "yyyy-MM-dd"),
+  mode: "calendar",
+  zoom: "month",
+  projectId: "all",
+  labels: [],
+  query: "",
+});
+
+// ?date=2025-03-14&view=timeline&zoom=quarter&project=…&labels=risk,external&q=… — defaults are left out
+export function viewStateToSearch(v: ViewState, today = new Date()): string {
+  const d = defaultViewState(today);
+  const params = new URLSearchParams();
+  if (v.date !== d.date) params.set("date", v.date);
+  if (v.mode !== d.mode) params.set("view", v.mode);
+  if (v.zoom !== d.zoom) params.set("zoom", v.zoom);
+  if (v.projectId !== d.projectId) params.set("project", v.projectId);
+  if (v.labels.length) params.set("labels", v.labels.join(","));
+  if (v.query) params.set("q", v.query);
+  const s = params.toString();
+  return s ? `?${s}` : "";
+}
+
+// Links are typed or edited by hand; anything unrecognized falls back to the default
+export function viewStateFromSearch(search: string, today = new Date()): ViewState {
+  const params = new URLSearchParams(search);
+  const d = defaultViewState(today);
+  const date = params.get("date") || "";
+  const mode = params.get("view") as ViewMode;
+  const zoom = params.get("zoom") as TimelineZoom;
+  return {
+    date: /^\d{4}-\d{2}-\d{2}$/.test(date) && isValid(parseISO(date)) ? date : d.date,
+    mode: VIEW_MODES.includes(mode) ? mode : d.mode,
+    zoom: TIMELINE_ZOOMS.includes(zoom) ? zoom : d.zoom,
+    projectId: params.get("project") || d.projectId,
+    labels: (params.get("labels") || "").split(",").filter(Boolean),
+    query: params.get("q") || "",
+  };
+}
+
+// Saved views live in settings, so they travel with backups
+export const savedViewsOf = (settings: AppSettings): SavedView[] =>
+  (Array.isArray(settings.savedViews) ? settings.savedViews : []).filter(
+    (s): s is SavedView => !!s && typeof s.id === "string" && typeof s.name === "string" && typeof s.search === "string"
+  );
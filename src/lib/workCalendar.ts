@@ -0,0 +1,100 @@
+import { addDays, differenceInCalendarDays, format, getDay, parseISO } from "date-fns";
+import type { AppSettings, Holiday, Project, WorkCalendar } from "./types";
+import { safeEnd } from "./dates";
+import { parseICS } from "./ics";
+
+// -----------------------------
+// Working calendars: working weekdays + holidays
+// -----------------------------
+
+export const STANDARD_CALENDAR: WorkCalendar = { id: "standard", name: "Mon–Fri", workingWeekdays: [1, 2, 3, 4, 5], holidays: [] };
+
+const isISODate = (v: unknown): v is string => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+
+// Settings are untrusted (old backups, other tabs); drop anything malformed
+export function workCalendarsOf(settings: AppSettings): WorkCalendar[] {
+  const list = Array.isArray(settings.workCalendars) ? settings.workCalendars : [];
+  const valid = list.filter(
+    (c): c is WorkCalendar =>
+      !!c &&
+      typeof c.id === "string" &&
+      typeof c.name === "string" &&
+      Array.isArray(c.workingWeekdays) &&
+      c.workingWeekdays.every((d) => Number.isInteger(d) && d >= 0 && d <= 6) &&
+      Array.isArray(c.holidays) &&
+      c.holidays.every((h) => h && isISODate(h.date) && typeof h.name === "string")
+  );
+  return valid.some((c) => c.id === STANDARD_CALENDAR.id) ? valid : [STANDARD_CALENDAR, ...valid];
+}
+
+// Project's own calendar, else the default one
+export function calendarFor(project: Project | undefined, settings: AppSettings): WorkCalendar {
+  const calendars = workCalendarsOf(settings);
+  const byId = (id: unknown) => calendars.find((c) => c.id === id);
+  return byId(project?.calendarId) || byId(settings.defaultCalendarId) || calendars[0];
+}
+
+// Holiday lookups happen per rendered day, so index them once per calendar object
+const holidayIndex = new WeakMap<WorkCalendar, Map<string, string>>();
+export function holidayName(cal: WorkCalendar, iso: string) {
+  let idx = holidayIndex.get(cal);
+  if (!idx) holidayIndex.set(cal, (idx = new Map(cal.holidays.map((h) => [h.date, h.name]))));
+  return idx.get(iso);
+}
+
+export const isWorkingDay = (cal: WorkCalendar, day: Date) =>
+  cal.workingWeekdays.includes(getDay(day)) && holidayName(cal, format(day, "yyyy-MM-dd")) === undefined;
+
+// A calendar with no working days at all would never terminate the searches below
+const hasWorkingDays = (cal: WorkCalendar) => cal.workingWeekdays.length > 0;
+
+// Working days in [start, end], inclusive
+export function workingDaysBetween(cal: WorkCalendar, startISO: string, endISO?: string | null) {
+  const start = parseISO(startISO);
+  const days = differenceInCalendarDays(parseISO(safeEnd(startISO, endISO)), start) + 1;
+  let n = 0;
+  for (let i = 0; i < days; i++) if (isWorkingDay(cal, addDays(start, i))) n++;
+  return n;
+}
+
+// First working day on or after (dir 1) / on or before (dir -1) the given day
+export function snapToWorkingDay(cal: WorkCalendar, day: Date, dir: 1 | -1 = 1) {
+  if (!hasWorkingDays(cal)) return day;
+  let d = day;
+  while (!isWorkingDay(cal, d)) d = addDays(d, dir);
+  return d;
+}
+
+// Move n working days from a working day (n may be negative)
+export function addWorkingDays(cal: WorkCalendar, day: Date, n: number) {
+  if (!hasWorkingDays(cal)) return addDays(day, n);
+  let d = day;
+  const step = n < 0 ? -1 : 1;
+  for (let left = Math.abs(n); left > 0; ) {
+    d = addDays(d, step);
+    if (isWorkingDay(cal, d)) left--;
+  }
+  return d;
+}
+
+// Reschedule to a new start keeping the number of working days: the start snaps to a working day
+// (forward unless moving backwards) and the end lands on the last working day of the same count
+export function shiftKeepingWorkingDays(cal: WorkCalendar, startISO: string, endISO: string | null | undefined, newStart: Date, dir: 1 | -1 = 1) {
+  const count = Math.max(1, workingDaysBetween(cal, startISO, endISO));
+  const start = snapToWorkingDay(cal, newStart, dir);
+  return { date: format(start, "yyyy-MM-dd"), endDate: format(addWorkingDays(cal, start, count - 1), "yyyy-MM-dd") };
+}
+
+// Every day of every event in an .ics file becomes a holiday named after the event
+export function holidaysFromICS(text: string): Holiday[] {
+  const out = new Map<string, string>();
+  for (const ev of parseICS(text).events) {
+    const start = parseISO(ev.start);
+    const days = differenceInCalendarDays(parseISO(ev.end), start) + 1;
+    for (let i = 0; i < days; i++) out.set(format(addDays(start, i), "yyyy-MM-dd"), ev.title);
+  }
+  return Array.from(out, ([date, name]) => ({ date, name })).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export const mergeHolidays = (existing: Holiday[], incoming: Holiday[]) =>
+  Array.from(new Map([...existing, ...incoming].map((h) => [h.date, h])).values()).sort((a, b) => a.date.localeCompare(b.date));